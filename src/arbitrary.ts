@@ -0,0 +1,569 @@
+import { stack, TransformationError, typeName } from "./errors"
+import { reflect } from "./reflection"
+import { Bound, Literal, SchemaKind, Shape, Stack, TransformationContext } from "./types"
+
+/** options for `arbitrary` */
+export interface ArbitraryOptions {
+  /** seed of the pseudo-random generator. The same seed always produces the same value; random by default */
+  seed?: number
+  /** how many levels of objects and collections to nest before choosing the smallest values, 4 by default */
+  depth?: number
+  /** the usual number of items of collections and characters of strings, 4 by default */
+  size?: number
+  /** transformation context used to check generated values against constraints, and to read `examples` */
+  context?: TransformationContext
+}
+
+/** options for `assertRoundTrip` */
+export interface RoundTripOptions extends ArbitraryOptions {
+  /** how many values to check, 100 by default */
+  runs?: number
+}
+
+/** A schema `arbitrary` can't generate values of, e.g. a custom Bound without examples or constraints seldom met by chance */
+export class GenerationError extends Error {
+  constructor(
+    message: string,
+    /** kind of the schema no value could be generated for */
+    public kind: SchemaKind
+  ) {
+    super(message)
+    this.name = 'GenerationError'
+  }
+}
+
+/** seeded pseudo-random generator (mulberry32), so any generated value can be produced again */
+function prng(seed: number) {
+  let state = seed >>> 0
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /** an integer between `min` and `max`, both included */
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1))
+  const pick = <T>(values: readonly T[]): T => values[int(0, values.length - 1)]
+  const chance = (probability: number) => next() < probability
+  return { next, int, pick, chance, seed: () => int(0, 0xffffffff) }
+}
+
+type Random = ReturnType<typeof prng>
+
+/** what the constraints wrapped around a Bound require of its values, as far as generation can take them into account */
+interface Hints {
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  integer?: boolean
+  step?: number
+  /** a string format the value must have, e.g. `email` */
+  validation?: string
+}
+
+/** the hints a constraint built by the constraints module gives about the values it accepts */
+function hintsOf(check: string, params: Record<string, any>): Hints {
+  switch (check) {
+    case 'min':
+    case 'max':
+      return { [check === 'min' ? 'minimum' : 'maximum']: params[check === 'min' ? 'minimum' : 'maximum'] }
+    case 'minLength':
+      return { minLength: params.minimum }
+    case 'maxLength':
+      return { maxLength: params.maximum }
+    case 'integer':
+      return { integer: true }
+    case 'multipleOf':
+      return { step: params.step }
+    case 'email':
+    case 'uuid':
+    case 'trimmed':
+      return { validation: check }
+    default:
+      return {}
+  }
+}
+
+/** how many times to generate a value before giving up on satisfying a constraint */
+const Attempts = 100
+
+const letters = [...'abcdefghijklmnopqrstuvwxyz']
+const characters = [...letters, ...'ABCXYZ0123456789 _-.:/"\\\'\n\té€ü']
+
+function generator(random: Random, options: ArbitraryOptions) {
+  const size = options.size ?? 4
+  const s = (): Stack => stack().withContext(options.context ?? {})
+
+  const valid = (bound: Bound<any, any>, value: any) => {
+    try {
+      bound.transform(value, s())
+      return true
+    } catch (e) {
+      if (e instanceof TransformationError) {
+        return false
+      }
+
+      throw e
+    }
+  }
+
+  /** generate values until one is accepted by `bound` */
+  const until = (bound: Bound<any, any>, what: string, produce: () => any) => {
+    for (let i = 0; i < Attempts; i++) {
+      const value = produce()
+      if (valid(bound, value)) {
+        return value
+      }
+    }
+
+    throw new GenerationError(
+      `Could not generate a value satisfying ${what} in ${Attempts} attempts; give the schema examples with withMeta`,
+      reflect(bound).kind
+    )
+  }
+
+  const length = (hints: Hints, depth: number) => {
+    const min = hints.minLength ?? 0
+    const max = hints.maxLength ?? min + size
+    return depth <= 0 ? min : random.int(min, Math.max(min, max))
+  }
+
+  const word = (min = 1) => Array.from({ length: random.int(min, min + size) }, () => random.pick(letters)).join('')
+
+  const string = (hints: Hints, depth: number): string => {
+    switch (hints.validation) {
+      case 'email':
+        return `${word()}@${word()}.${word(2)}`
+      case 'uuid': {
+        const hex = (n: number) => Array.from({ length: n }, () => random.int(0, 15).toString(16)).join('')
+        return `${hex(8)}-${hex(4)}-4${hex(3)}-${random.pick(['8', '9', 'a', 'b'])}${hex(3)}-${hex(12)}`
+      }
+    }
+
+    const value = Array.from({ length: length(hints, depth) }, () => random.pick(characters)).join('')
+    return hints.validation === 'trimmed' ? value.replace(/^\s|\s$/g, 'x') : value
+  }
+
+  /** a camelCase identifier, as runtime keys usually are, so that naming strategies can convert it back */
+  const identifier = () => word() + Array.from({ length: random.int(0, 2) }, () => {
+    const part = word()
+    return part[0].toUpperCase() + part.slice(1)
+  }).join('')
+
+  const number = (hints: Hints): number => {
+    const min = hints.minimum ?? (hints.maximum !== undefined ? hints.maximum - 2000 : -1000)
+    const max = hints.maximum ?? min + 2000
+    if (hints.step !== undefined) {
+      const step = Math.abs(hints.step)
+      return random.int(Math.ceil(min / step), Math.floor(max / step)) * step || 0
+    }
+
+    if (hints.integer || random.chance(0.5)) {
+      return random.int(Math.ceil(min), Math.floor(max)) || 0
+    }
+
+    return min + random.next() * (max - min) || 0
+  }
+
+  const literal = (depth: number): Literal => {
+    switch (random.int(0, depth <= 0 ? 3 : 5)) {
+      case 0: return string({}, depth)
+      case 1: return number({})
+      case 2: return random.chance(0.5)
+      case 3: return null
+      case 4: return Array.from({ length: length({}, depth) }, () => literal(depth - 1))
+      default: return Object.fromEntries(Array.from({ length: length({}, depth) }, () => [identifier(), literal(depth - 1)]))
+    }
+  }
+
+  const fields = (shape: Shape, depth: number) =>
+    Object.fromEntries(Object.entries(shape).map(([key, bound]) => [key, generate(bound, depth)]))
+
+  const generate = (bound: Bound<any, any>, depth: number, hints: Hints = {}): any => {
+    const node = reflect(bound)
+    const examples = node.meta?.examples
+    if (Array.isArray(examples) && examples.length > 0) {
+      return bound.restore(random.pick(examples), s())
+    }
+
+    switch (node.kind) {
+      case 'any':
+        return literal(depth)
+      case 'string':
+        return string(hints, depth)
+      case 'number':
+        return number(hints)
+      case 'boolean':
+        return random.chance(0.5)
+      case 'null':
+        return null
+      case 'literal':
+        return structuredClone(node.value)
+      case 'oneOf':
+        return random.pick(node.values)
+      case 'validated':
+        return until(bound, 'a validated schema', () => literal(depth))
+      case 'lazy':
+        return generate(node.schema(), depth, hints)
+      case 'refined': {
+        const refined = { ...hints, ...hintsOf(node.check, node.params) }
+        return until(bound, `'${node.check}'`, () => generate(node.inner, depth, refined))
+      }
+      case 'optional':
+        return depth <= 0 || random.chance(0.25) ? undefined : generate(node.inner, depth, hints)
+      case 'nullable':
+        return depth <= 0 || random.chance(0.25) ? null : generate(node.inner, depth, hints)
+      case 'withDefault':
+      case 'sensitive':
+        return generate(node.inner, depth, hints)
+      case 'object':
+        return fields(node.shape, depth - 1)
+      case 'extend':
+        return { ...generate(node.base, depth), ...generate(node.extension, depth) }
+      case 'intersection':
+        return until(bound, 'an intersection', () => {
+          const left = generate(node.left, depth)
+          const right = generate(node.right, depth)
+          return typeName(left) === 'object' && typeName(right) === 'object' ? { ...left, ...right } : left
+        })
+      case 'class':
+        return bound.restore(node.schema.transform(generate(node.schema, depth), s()), s())
+      case 'array':
+        return Array.from({ length: length(hints, depth) }, () => generate(node.item, depth - 1))
+      case 'set':
+        return new Set(Array.from({ length: length(hints, depth) }, () => generate(node.item, depth - 1)))
+      case 'tuple':
+        return node.items.map(item => generate(item, depth - 1)).concat(
+          node.rest === undefined ? [] : Array.from({ length: length({}, depth) }, () => generate(node.rest!, depth - 1))
+        )
+      case 'record':
+      case 'map': {
+        const key = () => reflect(node.key).kind === 'string' ? identifier() : generate(node.key, depth - 1)
+        const entries = Array.from({ length: length(hints, depth) }, () => [key(), generate(node.value, depth - 1)])
+        return node.kind === 'record' ? Object.fromEntries(entries) : new Map(entries as Array<[any, any]>)
+      }
+      case 'union': {
+        const branches = node.branches.filter(b => b !== undefined)
+        if (branches.length === 0) {
+          throw new GenerationError(`Cannot generate values of unions whose branches aren't known; build them with when()`, node.kind)
+        }
+
+        return until(bound, 'a union', () => generate(random.pick(branches), depth))
+      }
+      case 'discriminatedUnion': {
+        const tag = random.pick(Object.keys(node.branches))
+        const value = generate(node.branches[tag], depth)
+        return typeName(value) === 'object' && value[node.key] === undefined ? { ...value, [node.key]: tag } : value
+      }
+      case 'versioned':
+        return generate(node.schemas[Math.max(...Object.keys(node.schemas).map(Number))], depth)
+      case 'document':
+        return generate(node.schema, depth, hints)
+      case 'date':
+        return new Date(random.int(0, 4102444800) * 1000 + random.int(0, 999))
+      case 'bigint':
+        return BigInt(random.int(-0xffffffff, 0xffffffff)) * BigInt(random.int(1, 0xffffffff))
+      case 'url':
+        return new URL(`https://${word()}.example/${word()}?${word()}=${random.int(0, 100)}`)
+      case 'regexp':
+        return new RegExp(`^${word()}[0-9]+$`, random.pick(['', 'i', 'gm']))
+      case 'bytes':
+        return Uint8Array.from({ length: length(hints, depth) }, () => random.int(0, 255))
+      case 'pipe':
+        return generate(node.steps[0], depth, hints)
+      default:
+        throw new GenerationError(`Cannot generate values of '${node.kind}' schemas without examples; give them some with withMeta`, node.kind)
+    }
+  }
+
+  return { generate, valid }
+}
+
+/**
+ * Generate a random runtime value fitting a schema, e.g. to test code handling it with more than a few hand-picked values.
+ * Constraints built with this library guide generation; other ones are satisfied by generating values until one fits.
+ * Bounds that can't be described, such as custom ones and codecs, need serialized `examples` in their metadata,
+ * and a `GenerationError` is thrown for those that have none.
+ * @param schema expression of the value
+ * @param options seed, sizes and context of generation
+ */
+export function arbitrary<T>(schema: Bound<T, any>, options: ArbitraryOptions = {}): T {
+  const random = prng(options.seed ?? Math.floor(Math.random() * 0x100000000))
+  return generator(random, options).generate(schema, options.depth ?? 4)
+}
+
+/** compare runtime values, including dates, collections and class instances. Keys holding `undefined` count as missing */
+function equivalent(a: any, b: any): boolean {
+  if (a === b || (Number.isNaN(a) && Number.isNaN(b))) {
+    return true
+  }
+
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false
+  }
+
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false
+  }
+
+  if (a instanceof Date) {
+    return equivalent(a.getTime(), b.getTime())
+  }
+
+  if (a instanceof RegExp || a instanceof URL) {
+    return a.toString() === b.toString()
+  }
+
+  if (a instanceof Map || a instanceof Set) {
+    const left = [...a.entries()]
+    const right = [...b.entries()]
+    return left.length === right.length && left.every((entry, i) => equivalent(entry, right[i]))
+  }
+
+  if (Array.isArray(a) || a instanceof Uint8Array) {
+    return a.length === b.length && Array.from(a).every((v, i) => equivalent(v, b[i]))
+  }
+
+  const keys = Object.keys(a).filter(key => a[key] !== undefined)
+  return keys.length === Object.keys(b).filter(key => b[key] !== undefined).length
+    && keys.every(key => equivalent(a[key], b[key]))
+}
+
+/** a readable rendition of a runtime value, for failure messages */
+function show(value: any): string {
+  switch (typeName(value)) {
+    case 'bigint':
+      return `${value}n`
+    case 'undefined':
+      return 'undefined'
+    case 'array':
+      return `[${value.map(show).join(', ')}]`
+  }
+
+  if (value instanceof Date) {
+    return `Date(${Number.isNaN(value.getTime()) ? 'invalid' : value.toISOString()})`
+  }
+
+  if (value instanceof RegExp || value instanceof URL) {
+    return `${value.constructor.name}(${value})`
+  }
+
+  if (value instanceof Map || value instanceof Set) {
+    return `${value.constructor.name}(${show([...value])})`
+  }
+
+  if (value instanceof Uint8Array) {
+    return `Uint8Array(${show([...value])})`
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const name = Object.getPrototypeOf(value)?.constructor?.name
+    const entries = Object.entries(value).map(([key, v]) => `${JSON.stringify(key)}: ${show(v)}`)
+    return `${name === undefined || name === 'Object' ? '' : name + ' '}{${entries.join(', ')}}`
+  }
+
+  return JSON.stringify(value)
+}
+
+/** smaller values than `value` that still fit `bound`, most drastic first */
+function* shrinks(bound: Bound<any, any>, value: any, valid: (bound: Bound<any, any>, value: any) => boolean): Generator<any> {
+  const node = reflect(bound)
+  switch (node.kind) {
+    case 'optional':
+    case 'nullable':
+      if (value !== (node.kind === 'optional' ? undefined : null)) {
+        yield node.kind === 'optional' ? undefined : null
+        yield* shrinks(node.inner, value, valid)
+      }
+
+      return
+    case 'withDefault':
+    case 'sensitive':
+    case 'document':
+      return yield* shrinks(node.kind === 'document' ? node.schema : node.inner, value, valid)
+    case 'lazy':
+      return yield* shrinks(node.schema(), value, valid)
+    case 'refined':
+    case 'pipe':
+    case 'union':
+    case 'intersection':
+    case 'extend': {
+      const inner = node.kind === 'refined' ? [node.inner]
+        : node.kind === 'pipe' ? [node.steps[0]]
+        : node.kind === 'union' ? node.branches.filter(b => b !== undefined && valid(b, value))
+        : node.kind === 'intersection' ? [node.left, node.right]
+        : [node.base, node.extension]
+      for (const candidate of inner.flatMap(b => [...shrinks(b!, value, valid)])) {
+        if (valid(bound, candidate)) {
+          yield candidate
+        }
+      }
+
+      return
+    }
+    case 'discriminatedUnion':
+      return yield* shrinks(node.branches[value?.[node.key]] ?? bound, value, valid)
+    case 'versioned':
+      return yield* shrinks(node.schemas[Math.max(...Object.keys(node.schemas).map(Number))], value, valid)
+    case 'string':
+      if (value.length > 0) {
+        yield ''
+        yield value.slice(0, value.length >> 1)
+        yield value.slice(1)
+        yield value.slice(0, -1)
+      }
+
+      return
+    case 'number':
+      if (value !== 0) {
+        yield 0
+        if (value < 0) {
+          yield -value
+        }
+
+        if (!Number.isInteger(value)) {
+          yield Math.trunc(value)
+        }
+
+        yield Math.trunc(value / 2)
+      }
+
+      return
+    case 'bigint':
+      if (value !== 0n) {
+        yield 0n
+        yield value / 2n
+      }
+
+      return
+    case 'date':
+      if (value.getTime() !== 0) {
+        yield new Date(0)
+      }
+
+      return
+    case 'object':
+      for (const [key, field] of Object.entries(node.shape)) {
+        for (const candidate of shrinks(field, value[key], valid)) {
+          yield { ...value, [key]: candidate }
+        }
+      }
+
+      return
+    case 'class':
+      for (const candidate of shrinks(node.schema, { ...value }, valid)) {
+        yield Object.assign(Object.create(Object.getPrototypeOf(value)), candidate)
+      }
+
+      return
+    case 'array':
+    case 'tuple':
+    case 'bytes':
+    case 'set': {
+      const items: any[] = [...value]
+      const rebuild = (items: any[]) => node.kind === 'set' ? new Set(items) : node.kind === 'bytes' ? Uint8Array.from(items) : items
+      const first = node.kind === 'tuple' ? node.items.length : 0
+      if (items.length > first) {
+        yield rebuild(items.slice(0, first))
+        yield rebuild(items.slice(0, Math.max(first, items.length >> 1)))
+        for (let i = first; i < items.length; i++) {
+          yield rebuild(items.filter((_, j) => j !== i))
+        }
+      }
+
+      const itemOf = (i: number) => node.kind === 'tuple' ? node.items[i] ?? node.rest! : node.kind === 'bytes' ? undefined : node.item
+      for (let i = 0; i < items.length; i++) {
+        const item = itemOf(i)
+        for (const candidate of item === undefined ? [] : shrinks(item, items[i], valid)) {
+          yield rebuild(items.map((v, j) => j === i ? candidate : v))
+        }
+      }
+
+      return
+    }
+    case 'record':
+    case 'map': {
+      const entries: Array<[any, any]> = node.kind === 'map' ? [...value.entries()] : Object.entries(value)
+      const rebuild = (entries: Array<[any, any]>) => node.kind === 'map' ? new Map(entries) : Object.fromEntries(entries)
+      if (entries.length > 0) {
+        yield rebuild([])
+        for (let i = 0; i < entries.length; i++) {
+          yield rebuild(entries.filter((_, j) => j !== i))
+        }
+      }
+
+      for (let i = 0; i < entries.length; i++) {
+        for (const candidate of shrinks(node.value, entries[i][1], valid)) {
+          yield rebuild(entries.map((entry, j) => j === i ? [entry[0], candidate] : entry))
+        }
+      }
+
+      return
+    }
+  }
+}
+
+/** how many smaller counterexamples to accept at most while shrinking */
+const ShrinkSteps = 1000
+
+/** A value that didn't survive a round trip through its schema, shrunk as far as possible */
+export class RoundTripError extends Error {
+  constructor(
+    /** why the smallest counterexample failed */
+    public reason: string,
+    /** smallest value found failing the round trip */
+    public counterexample: any,
+    /** seed that generates the value originally found, to pass to `arbitrary` */
+    public seed: number
+  ) {
+    super(`Round trip failed (seed ${seed}): ${reason}\n  counterexample: ${show(counterexample)}`)
+    this.name = 'RoundTripError'
+  }
+}
+
+/**
+ * Check that values generated by `arbitrary` are restored as they were after being transformed,
+ * throwing a `RoundTripError` with the smallest counterexample found otherwise.
+ * Each run has its own seed, which the error carries so the original failure can be generated again.
+ * @param schema expression of the values
+ * @param options number of runs, along with the options of `arbitrary`
+ */
+export function assertRoundTrip<T>(schema: Bound<T, any>, options: RoundTripOptions = {}): void {
+  const seeds = prng(options.seed ?? Math.floor(Math.random() * 0x100000000))
+  const s = (): Stack => stack().withContext(options.context ?? {})
+
+  const failure = (value: T): string | undefined => {
+    try {
+      const restored = schema.restore(schema.transform(value, s()), s())
+      return equivalent(restored, value) ? undefined : `restored as ${show(restored)}`
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e)
+    }
+  }
+
+  for (let run = 0; run < (options.runs ?? 100); run++) {
+    const seed = seeds.seed()
+    const { generate, valid } = generator(prng(seed), options)
+    let value: T = generate(schema, options.depth ?? 4)
+    let reason = failure(value)
+    if (reason === undefined) {
+      continue
+    }
+
+    for (let step = 0, shrunk = true; shrunk && step < ShrinkSteps; step++) {
+      shrunk = false
+      for (const candidate of shrinks(schema, value, valid)) {
+        const candidateReason = failure(candidate)
+        if (candidateReason !== undefined) {
+          [value, reason, shrunk] = [candidate, candidateReason, true]
+          break
+        }
+      }
+    }
+
+    throw new RoundTripError(reason, value, seed)
+  }
+}
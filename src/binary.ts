@@ -0,0 +1,533 @@
+import { stack, TransformationError, typeName } from "./errors"
+import { Literal } from "./types"
+import { define, definedEntries } from "./util"
+
+/** raise an issue about malformed binary input, located by byte offset */
+function malformed(format: string, reason: string, offset: number): never {
+  throw new TransformationError(
+    { code: 'invalid_format', direction: 'restore', expected: format, received: reason, params: { offset } },
+    stack()
+  )
+}
+
+/** raise an issue about a value that has no binary representation */
+function unencodable(value: any): never {
+  throw new TransformationError(
+    { code: 'invalid_type', direction: 'transform', expected: 'Literal', received: typeName(value) },
+    stack(),
+    value
+  )
+}
+
+/** growable big-endian byte buffer. Space is reserved before `buffer` and `view` are read, as reserving may replace them */
+function writer() {
+  let buffer = new Uint8Array(256)
+  let view = new DataView(buffer.buffer)
+  let length = 0
+
+  const reserve = (n: number) => {
+    if (length + n > buffer.length) {
+      const grown = new Uint8Array(Math.max(buffer.length * 2, length + n))
+      grown.set(buffer)
+      buffer = grown
+      view = new DataView(buffer.buffer)
+    }
+
+    const at = length
+    length += n
+    return at
+  }
+
+  return {
+    uint8: (n: number) => {
+      const at = reserve(1)
+      view.setUint8(at, n)
+    },
+    uint16: (n: number) => {
+      const at = reserve(2)
+      view.setUint16(at, n)
+    },
+    uint32: (n: number) => {
+      const at = reserve(4)
+      view.setUint32(at, n)
+    },
+    int8: (n: number) => {
+      const at = reserve(1)
+      view.setInt8(at, n)
+    },
+    int16: (n: number) => {
+      const at = reserve(2)
+      view.setInt16(at, n)
+    },
+    int32: (n: number) => {
+      const at = reserve(4)
+      view.setInt32(at, n)
+    },
+    /** a safe integer over 8 bytes, two's complement when negative */
+    int64: (n: number) => {
+      const at = reserve(8)
+      const high = Math.floor(n / 2 ** 32)
+      view.setInt32(at, high)
+      view.setUint32(at + 4, n - high * 2 ** 32)
+    },
+    float64: (n: number) => {
+      const at = reserve(8)
+      view.setFloat64(at, n)
+    },
+    bytes: (bytes: Uint8Array) => {
+      const at = reserve(bytes.length)
+      buffer.set(bytes, at)
+    },
+    result: () => buffer.slice(0, length)
+  }
+}
+
+/** big-endian cursor over a byte array, failing with the offset of whatever it can't read */
+function reader(bytes: Uint8Array, format: string) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder('utf-8', { fatal: true })
+  let offset = 0
+
+  const take = (n: number) => {
+    if (offset + n > bytes.length) {
+      malformed(format, 'unexpected end of input', bytes.length)
+    }
+
+    const at = offset
+    offset += n
+    return at
+  }
+
+  return {
+    get offset() { return offset },
+    get remaining() { return bytes.length - offset },
+    fail: (reason: string, at: number = offset): never => malformed(format, reason, at),
+    peek: () => {
+      take(1)
+      return bytes[--offset]
+    },
+    uint8: () => view.getUint8(take(1)),
+    uint16: () => view.getUint16(take(2)),
+    uint32: () => view.getUint32(take(4)),
+    int8: () => view.getInt8(take(1)),
+    int16: () => view.getInt16(take(2)),
+    int32: () => view.getInt32(take(4)),
+    uint64: () => {
+      const at = take(8)
+      return view.getUint32(at) * 2 ** 32 + view.getUint32(at + 4)
+    },
+    int64: () => {
+      const at = take(8)
+      return view.getInt32(at) * 2 ** 32 + view.getUint32(at + 4)
+    },
+    float16: () => {
+      const half = view.getUint16(take(2))
+      const sign = half & 0x8000 ? -1 : 1
+      const exponent = (half >> 10) & 0x1f
+      const fraction = half & 0x3ff
+      if (exponent === 0) {
+        return sign * 2 ** -14 * (fraction / 1024)
+      }
+
+      return exponent === 31
+        ? fraction === 0 ? sign * Infinity : NaN
+        : sign * 2 ** (exponent - 15) * (1 + fraction / 1024)
+    },
+    float32: () => view.getFloat32(take(4)),
+    float64: () => view.getFloat64(take(8)),
+    bytes: (n: number) => {
+      const at = take(n)
+      return bytes.slice(at, at + n)
+    },
+    text: (n: number) => {
+      const at = take(n)
+      try {
+        return decoder.decode(bytes.subarray(at, at + n))
+      } catch {
+        return malformed(format, 'invalid UTF-8 string', at)
+      }
+    }
+  }
+}
+
+type Reader = ReturnType<typeof reader>
+
+/** decode a whole input with a format's value decoder, rejecting anything left over */
+function decodeAll(bytes: Uint8Array, format: string, decode: (r: Reader) => any): Literal {
+  if (!(bytes instanceof Uint8Array)) {
+    throw new TransformationError(
+      { code: 'invalid_type', direction: 'restore', expected: 'Uint8Array', received: typeName(bytes) },
+      stack(),
+      bytes
+    )
+  }
+
+  const r = reader(bytes, format)
+  const value = decode(r)
+  if (r.remaining > 0) {
+    r.fail('unexpected trailing bytes')
+  }
+
+  return value
+}
+
+const utf8 = new TextEncoder()
+
+/** encode a Literal as MessagePack. Byte arrays nested within it, such as binary documents, become `bin` values */
+export function encodeMessagePack(value: Literal): Uint8Array {
+  const w = writer()
+  const encode = (v: any) => {
+    if (v === null || v === undefined) {
+      w.uint8(0xc0)
+    } else if (typeof v === 'boolean') {
+      w.uint8(v ? 0xc3 : 0xc2)
+    } else if (typeof v === 'number') {
+      if (!Number.isSafeInteger(v)) {
+        w.uint8(0xcb)
+        w.float64(v)
+      } else if (v >= 0) {
+        if (v < 0x80) {
+          w.uint8(v)
+        } else if (v < 0x100) {
+          w.uint8(0xcc)
+          w.uint8(v)
+        } else if (v < 0x10000) {
+          w.uint8(0xcd)
+          w.uint16(v)
+        } else if (v < 0x100000000) {
+          w.uint8(0xce)
+          w.uint32(v)
+        } else {
+          w.uint8(0xcf)
+          w.int64(v)
+        }
+      } else if (v >= -0x20) {
+        w.int8(v)
+      } else if (v >= -0x80) {
+        w.uint8(0xd0)
+        w.int8(v)
+      } else if (v >= -0x8000) {
+        w.uint8(0xd1)
+        w.int16(v)
+      } else if (v >= -0x80000000) {
+        w.uint8(0xd2)
+        w.int32(v)
+      } else {
+        w.uint8(0xd3)
+        w.int64(v)
+      }
+    } else if (typeof v === 'string') {
+      const bytes = utf8.encode(v)
+      length(bytes.length, 0xa0, 32, [0xd9, 0xda, 0xdb])
+      w.bytes(bytes)
+    } else if (v instanceof Uint8Array) {
+      length(v.length, undefined, 0, [0xc4, 0xc5, 0xc6])
+      w.bytes(v)
+    } else if (Array.isArray(v)) {
+      length(v.length, 0x90, 16, [undefined, 0xdc, 0xdd])
+      v.forEach(encode)
+    } else if (typeName(v) === 'object') {
+      const entries = definedEntries(v)
+      length(entries.length, 0x80, 16, [undefined, 0xde, 0xdf])
+      for (const [key, item] of entries) {
+        encode(key)
+        encode(item)
+      }
+    } else {
+      unencodable(v)
+    }
+  }
+
+  /** write a length header: the fix form when short enough, else the smallest of the 8, 16 and 32 bit forms */
+  const length = (n: number, fix: number | undefined, fixLimit: number, [byte8, byte16, byte32]: Array<number | undefined>) => {
+    if (fix !== undefined && n < fixLimit) {
+      w.uint8(fix | n)
+    } else if (byte8 !== undefined && n < 0x100) {
+      w.uint8(byte8)
+      w.uint8(n)
+    } else if (n < 0x10000) {
+      w.uint8(byte16!)
+      w.uint16(n)
+    } else {
+      w.uint8(byte32!)
+      w.uint32(n)
+    }
+  }
+
+  encode(value)
+  return w.result()
+}
+
+/** decode MessagePack into a Literal, raising an `invalid_format` issue with the byte offset of malformed input */
+export function decodeMessagePack(bytes: Uint8Array): Literal {
+  return decodeAll(bytes, 'MessagePack', r => {
+    const array = (n: number): any[] => {
+      if (n > r.remaining) {
+        r.fail('unexpected end of input', r.offset + r.remaining)
+      }
+
+      return Array.from({ length: n }, () => decode())
+    }
+
+    const map = (n: number) => {
+      if (n * 2 > r.remaining) {
+        r.fail('unexpected end of input', r.offset + r.remaining)
+      }
+
+      const record: Record<string, any> = {}
+      for (let i = 0; i < n; i++) {
+        const at = r.offset
+        const key = decode()
+        if (typeof key !== 'string') {
+          r.fail(`map key of type '${typeName(key)}'`, at)
+        }
+
+        define(record, key, decode())
+      }
+
+      return record
+    }
+
+    const decode = (): any => {
+      const at = r.offset
+      const type = r.uint8()
+      if (type < 0x80) {
+        return type
+      } else if (type < 0x90) {
+        return map(type & 0x0f)
+      } else if (type < 0xa0) {
+        return array(type & 0x0f)
+      } else if (type < 0xc0) {
+        return r.text(type & 0x1f)
+      } else if (type >= 0xe0) {
+        return type - 0x100
+      }
+
+      switch (type) {
+        case 0xc0: return null
+        case 0xc2: return false
+        case 0xc3: return true
+        case 0xc4: return r.bytes(r.uint8())
+        case 0xc5: return r.bytes(r.uint16())
+        case 0xc6: return r.bytes(r.uint32())
+        case 0xca: return r.float32()
+        case 0xcb: return r.float64()
+        case 0xcc: return r.uint8()
+        case 0xcd: return r.uint16()
+        case 0xce: return r.uint32()
+        case 0xcf: return r.uint64()
+        case 0xd0: return r.int8()
+        case 0xd1: return r.int16()
+        case 0xd2: return r.int32()
+        case 0xd3: return r.int64()
+        case 0xd9: return r.text(r.uint8())
+        case 0xda: return r.text(r.uint16())
+        case 0xdb: return r.text(r.uint32())
+        case 0xdc: return array(r.uint16())
+        case 0xdd: return array(r.uint32())
+        case 0xde: return map(r.uint16())
+        case 0xdf: return map(r.uint32())
+        default: return r.fail(`unsupported type byte 0x${type.toString(16)}`, at)
+      }
+    }
+
+    return decode()
+  })
+}
+
+/** encode a Literal as CBOR (RFC 8949). Byte arrays nested within it, such as binary documents, become byte strings */
+export function encodeCbor(value: Literal): Uint8Array {
+  const w = writer()
+
+  /** write the initial byte of a data item along with its argument */
+  const head = (major: number, n: number) => {
+    if (n < 24) {
+      w.uint8(major << 5 | n)
+    } else if (n < 0x100) {
+      w.uint8(major << 5 | 24)
+      w.uint8(n)
+    } else if (n < 0x10000) {
+      w.uint8(major << 5 | 25)
+      w.uint16(n)
+    } else if (n < 0x100000000) {
+      w.uint8(major << 5 | 26)
+      w.uint32(n)
+    } else {
+      w.uint8(major << 5 | 27)
+      w.int64(n)
+    }
+  }
+
+  const encode = (v: any) => {
+    if (v === null) {
+      w.uint8(0xf6)
+    } else if (v === undefined) {
+      w.uint8(0xf7)
+    } else if (typeof v === 'boolean') {
+      w.uint8(v ? 0xf5 : 0xf4)
+    } else if (typeof v === 'number') {
+      if (!Number.isSafeInteger(v)) {
+        w.uint8(0xfb)
+        w.float64(v)
+      } else if (v >= 0) {
+        head(0, v)
+      } else {
+        head(1, -1 - v)
+      }
+    } else if (typeof v === 'string') {
+      const bytes = utf8.encode(v)
+      head(3, bytes.length)
+      w.bytes(bytes)
+    } else if (v instanceof Uint8Array) {
+      head(2, v.length)
+      w.bytes(v)
+    } else if (Array.isArray(v)) {
+      head(4, v.length)
+      v.forEach(encode)
+    } else if (typeName(v) === 'object') {
+      const entries = definedEntries(v)
+      head(5, entries.length)
+      for (const [key, item] of entries) {
+        encode(key)
+        encode(item)
+      }
+    } else {
+      unencodable(v)
+    }
+  }
+
+  encode(value)
+  return w.result()
+}
+
+const BREAK = 0xff
+
+/** decode CBOR into a Literal, raising an `invalid_format` issue with the byte offset of malformed input */
+export function decodeCbor(bytes: Uint8Array): Literal {
+  return decodeAll(bytes, 'CBOR', r => {
+    /** read the argument of a data item, undefined for indefinite lengths */
+    const argument = (info: number, at: number): number | undefined => {
+      if (info < 24) {
+        return info
+      }
+
+      switch (info) {
+        case 24: return r.uint8()
+        case 25: return r.uint16()
+        case 26: return r.uint32()
+        case 27: return r.uint64()
+        case 31: return undefined
+        default: return r.fail(`reserved additional information ${info}`, at)
+      }
+    }
+
+    /** items until a break, for indefinite-length arrays, maps and strings */
+    const untilBreak = <T>(item: () => T): T[] => {
+      const items: T[] = []
+      while (r.peek() !== BREAK) {
+        items.push(item())
+      }
+
+      r.uint8()
+      return items
+    }
+
+    /** the definite-length chunks of an indefinite-length byte or text string */
+    const chunk = (major: number) => () => {
+      const at = r.offset
+      const initial = r.uint8()
+      const n = initial >> 5 === major ? argument(initial & 0x1f, at) : undefined
+      if (n === undefined) {
+        return r.fail('invalid chunk in indefinite-length string', at)
+      }
+
+      return major === 2 ? r.bytes(n) : r.text(n)
+    }
+
+    const pair = (record: Record<string, any>) => {
+      const at = r.offset
+      const key = decode()
+      if (typeof key !== 'string') {
+        r.fail(`map key of type '${typeName(key)}'`, at)
+      }
+
+      define(record, key, decode())
+    }
+
+    const decode = (): any => {
+      const at = r.offset
+      const initial = r.uint8()
+      const major = initial >> 5
+      const info = initial & 0x1f
+
+      if (major === 7) {
+        switch (info) {
+          case 20: return false
+          case 21: return true
+          case 22: return null
+          case 23: return undefined
+          case 25: return r.float16()
+          case 26: return r.float32()
+          case 27: return r.float64()
+          default: return r.fail(`unsupported simple value ${info}`, at)
+        }
+      }
+
+      const n = argument(info, at)
+      if (n === undefined && (major === 0 || major === 1 || major === 6)) {
+        return r.fail('indefinite length on a type that has none', at)
+      }
+
+      switch (major) {
+        case 0:
+          return n
+        case 1:
+          return -1 - n!
+        case 2: {
+          if (n !== undefined) {
+            return r.bytes(n)
+          }
+
+          const chunks = untilBreak(chunk(2) as () => Uint8Array)
+          const joined = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0))
+          let offset = 0
+          for (const c of chunks) {
+            joined.set(c, offset)
+            offset += c.length
+          }
+
+          return joined
+        }
+        case 3:
+          return n !== undefined ? r.text(n) : untilBreak(chunk(3)).join('')
+        case 4:
+          if (n !== undefined && n > r.remaining) {
+            r.fail('unexpected end of input', r.offset + r.remaining)
+          }
+
+          return n !== undefined ? Array.from({ length: n }, () => decode()) : untilBreak(decode)
+        case 5: {
+          const record: Record<string, any> = {}
+          if (n === undefined) {
+            untilBreak(() => pair(record))
+          } else {
+            if (n * 2 > r.remaining) {
+              r.fail('unexpected end of input', r.offset + r.remaining)
+            }
+
+            for (let i = 0; i < n; i++) {
+              pair(record)
+            }
+          }
+
+          return record
+        }
+        default:
+          // tags such as date/time or bignums are ignored, leaving the tagged value as is
+          return decode()
+      }
+    }
+
+    return decode()
+  })
+}
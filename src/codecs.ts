@@ -0,0 +1,431 @@
+import { collector, copying, descend, stack, TransformationError, typeName } from "./errors"
+import { Bound, Direction, IssueDetails, Literal, PrimitiveRecord, SchemaNode, Stack } from "./types"
+
+/** name a runtime value's type, using the constructor name for class instances */
+function runtimeName(v: any): string {
+  const name = typeName(v)
+  if (v instanceof Date && isNaN(v.getTime())) {
+    return 'Invalid Date'
+  }
+
+  if (name === 'object' && v.constructor !== undefined && v.constructor !== Object) {
+    return v.constructor.name
+  }
+
+  return name
+}
+
+function fail(details: IssueDetails, direction: Direction, s: Stack, offender: any): never {
+  throw new TransformationError({ ...details, direction }, s, offender)
+}
+
+interface ScalarOptions<T, U> {
+  label: string
+  node: SchemaNode
+  /** name of the runtime type, and a check for it */
+  source: [string, (v: any) => boolean]
+  /** name of the serialized type, and a check for it */
+  target: [string, (v: any) => boolean]
+  encode: (object: T) => U
+  /** convert a serialized value back, returning undefined when it isn't in the expected format */
+  decode: (json: U) => T | undefined
+  /** describes the format `decode` expects, for error messages */
+  format: string
+}
+
+/** a Bound converting a single runtime value to a single serialized value and back */
+function scalar<T, U extends Literal>(
+  { label, node, source, target, encode, decode, format }: ScalarOptions<T, U>
+): Bound<T, U> {
+  return {
+    transform: (object: T, s: Stack = stack()) => {
+      s = s.with(label)
+      if (!source[1](object)) {
+        fail({ code: 'invalid_type', expected: source[0], received: runtimeName(object) }, 'transform', s, object)
+      }
+
+      return encode(object)
+    },
+    restore: (json: U, s: Stack = stack()) => {
+      s = s.with(label)
+      if (!target[1](json)) {
+        fail({ code: 'invalid_type', expected: target[0], received: typeName(json) }, 'restore', s, json)
+      }
+
+      const decoded = decode(json)
+      if (decoded === undefined) {
+        fail({ code: 'invalid_format', expected: format, received: JSON.stringify(json) }, 'restore', s, json)
+      }
+
+      return decoded
+    },
+    node
+  }
+}
+
+const isString = (v: any) => typeof v === 'string'
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+
+/**
+ * Expresses a `Date`, stored as an ISO 8601 string or as milliseconds since the epoch
+ * @param format serialized representation
+ */
+export function date(format: 'iso'): Bound<Date, string>
+export function date(format: 'epoch'): Bound<Date, number>
+export function date(): Bound<Date, string>
+export function date(format: 'iso' | 'epoch' = 'iso'): Bound<Date, string> | Bound<Date, number> {
+  const source: [string, (v: any) => boolean] = ['Date', v => v instanceof Date && !isNaN(v.getTime())]
+  if (format === 'epoch') {
+    return scalar<Date, number>({
+      label: 'date',
+      node: { kind: 'date', format },
+      source,
+      target: ['number', v => typeof v === 'number'],
+      encode: d => d.getTime(),
+      decode: n => Number.isFinite(n) ? new Date(n) : undefined,
+      format: 'a finite epoch timestamp'
+    })
+  }
+
+  return scalar<Date, string>({
+    label: 'date',
+    node: { kind: 'date', format },
+    source,
+    target: ['string', isString],
+    encode: d => d.toISOString(),
+    decode: str => {
+      const d = new Date(str)
+      return ISO_DATE.test(str) && !isNaN(d.getTime()) ? d : undefined
+    },
+    format: 'an ISO 8601 date'
+  })
+}
+
+/** Expresses a `bigint`, stored as a decimal string */
+export function bigint(): Bound<bigint, string> {
+  return scalar<bigint, string>({
+    label: 'bigint',
+    node: { kind: 'bigint' },
+    source: ['bigint', v => typeof v === 'bigint'],
+    target: ['string', isString],
+    encode: n => n.toString(),
+    decode: str => /^-?\d+$/.test(str) ? BigInt(str) : undefined,
+    format: 'a decimal integer string'
+  })
+}
+
+/** Expresses a `URL`, stored as its string form */
+export function url(): Bound<URL, string> {
+  return scalar<URL, string>({
+    label: 'url',
+    node: { kind: 'url' },
+    source: ['URL', v => v instanceof URL],
+    target: ['string', isString],
+    encode: u => u.href,
+    decode: str => {
+      try {
+        return new URL(str)
+      } catch {
+        return undefined
+      }
+    },
+    format: 'an absolute URL'
+  })
+}
+
+/** Expresses a `RegExp`, stored in its `/source/flags` literal form */
+export function regexp(): Bound<RegExp, string> {
+  return scalar<RegExp, string>({
+    label: 'regexp',
+    node: { kind: 'regexp' },
+    source: ['RegExp', v => v instanceof RegExp],
+    target: ['string', isString],
+    encode: r => r.toString(),
+    decode: str => {
+      const match = /^\/(.*)\/([a-z]*)$/s.exec(str)
+      if (match === null) {
+        return undefined
+      }
+
+      try {
+        return new RegExp(match[1], match[2])
+      } catch {
+        return undefined
+      }
+    },
+    format: 'a regular expression literal'
+  })
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+function toBase64(bytes: Uint8Array): string {
+  let out = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const [a, b, c] = [bytes[i], bytes[i + 1], bytes[i + 2]]
+    const n = (a << 16) | ((b ?? 0) << 8) | (c ?? 0)
+    out += BASE64_ALPHABET[(n >> 18) & 63] + BASE64_ALPHABET[(n >> 12) & 63]
+    out += b === undefined ? '=' : BASE64_ALPHABET[(n >> 6) & 63]
+    out += c === undefined ? '=' : BASE64_ALPHABET[n & 63]
+  }
+
+  return out
+}
+
+function fromBase64(str: string): Uint8Array | undefined {
+  if (!/^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(str)) {
+    return undefined
+  }
+
+  const padding = str.endsWith('==') ? 2 : str.endsWith('=') ? 1 : 0
+  const bytes = new Uint8Array(str.length / 4 * 3 - padding)
+  for (let i = 0, j = 0; i < str.length; i += 4) {
+    const n = [0, 1, 2, 3]
+      .map(k => str[i + k] === '=' ? 0 : BASE64_ALPHABET.indexOf(str[i + k]))
+      .reduce((acc, v) => (acc << 6) | v, 0)
+
+    for (const shift of [16, 8, 0]) {
+      if (j < bytes.length) {
+        bytes[j++] = (n >> shift) & 255
+      }
+    }
+  }
+
+  return bytes
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function fromHex(str: string): Uint8Array | undefined {
+  if (!/^(?:[0-9a-fA-F]{2})*$/.test(str)) {
+    return undefined
+  }
+
+  return Uint8Array.from(str.match(/../g) ?? [], b => parseInt(b, 16))
+}
+
+/**
+ * Expresses binary data, stored as a base64 or hex string
+ * @param encoding serialized representation
+ */
+export function bytes(encoding: 'base64' | 'hex' = 'base64'): Bound<Uint8Array, string> {
+  return scalar<Uint8Array, string>({
+    label: `bytes:${encoding}`,
+    node: { kind: 'bytes', encoding },
+    source: ['Uint8Array', v => v instanceof Uint8Array],
+    target: ['string', isString],
+    encode: encoding === 'hex' ? toHex : toBase64,
+    decode: encoding === 'hex' ? fromHex : fromBase64,
+    format: `a ${encoding} string`
+  })
+}
+
+/**
+ * Expresses a `Map`, stored as an array of `[key, value]` entries,
+ * or as an object when the keys serialize to strings.
+ * @param keySchema expression of key type
+ * @param valueSchema expression of value type
+ * @param format serialized representation
+ */
+export function map<K, V, SK, SV>(
+  keySchema: Bound<K, SK>,
+  valueSchema: Bound<V, SV>,
+  format?: 'entries'
+): Bound<Map<K, V>, Array<[SK, SV]>>
+export function map<K, V, SV>(
+  keySchema: Bound<K, any>,
+  valueSchema: Bound<V, SV>,
+  format: 'record'
+): Bound<Map<K, V>, Record<string, SV>>
+export function map<K, V>(
+  keySchema: Bound<K, any>,
+  valueSchema: Bound<V, any>,
+  format: 'entries' | 'record' = 'entries'
+): Bound<Map<K, V>, any> {
+  return {
+    transform: (object: Map<K, V>, s: Stack = stack()) => {
+      if (!(object instanceof Map)) {
+        fail({ code: 'invalid_type', expected: 'Map', received: runtimeName(object) }, 'transform', s.with('map:transform'), object)
+      }
+
+      const issues = collector()
+      const entries = copying(object, s, 'map:transform', () => Array.from(object.entries()).map(([key, value], i) => {
+        const at = format === 'record' ? String(key) : i
+        return [
+          issues.attempt(() => keySchema.transform(key, descend(s, () => `map:transform[key ${at}]`, at))),
+          issues.attempt(() => valueSchema.transform(value, descend(s, () => `map:transform[value ${at}]`, at)))
+        ]
+      }))
+      issues.throwIfAny(s)
+
+      if (format === 'entries') {
+        return entries
+      }
+
+      const nonString = entries.findIndex(([key]) => typeof key !== 'string')
+      if (nonString !== -1) {
+        const key = entries[nonString][0]
+        fail({ code: 'invalid_type', expected: 'string', received: typeName(key) }, 'transform', s.with('map:transform[key]'), key)
+      }
+
+      return Object.fromEntries(entries) as PrimitiveRecord
+    },
+    restore: (json: Literal, s: Stack = stack()) => {
+      const expected = format === 'entries' ? 'array' : 'object'
+      if (typeName(json) !== expected) {
+        fail({ code: 'invalid_type', expected, received: typeName(json) }, 'restore', s.with('map:restore'), json)
+      }
+
+      const pairs = format === 'entries' ? json as Literal[] : Object.entries(json as PrimitiveRecord)
+      const issues = collector()
+      const entries = pairs.map((pair, i): [K, V] | undefined => {
+        const at = format === 'record' ? (pair as [string, Literal])[0] : i
+        if (!Array.isArray(pair) || pair.length !== 2) {
+          issues.add(new TransformationError(
+            { code: 'invalid_type', direction: 'restore', expected: '[key, value]', received: typeName(pair) },
+            s.with(`map:restore[${at}]`, at),
+            pair
+          ))
+          return undefined
+        }
+
+        return [
+          issues.attempt(() => keySchema.restore(pair[0], descend(s, () => `map:restore[key ${at}]`, at))) as K,
+          issues.attempt(() => valueSchema.restore(pair[1], descend(s, () => `map:restore[value ${at}]`, at))) as V
+        ]
+      })
+      issues.throwIfAny(s)
+
+      return new Map(entries as [K, V][])
+    },
+    node: { kind: 'map', key: keySchema, value: valueSchema, format }
+  }
+}
+
+/**
+ * Expresses a `Set`, stored as an array
+ * @param itemSchema expression of set element
+ */
+export function set<T, S>(itemSchema: Bound<T, S>): Bound<Set<T>, Array<S>> {
+  return {
+    transform: (object: Set<T>, s: Stack = stack()) => {
+      if (!(object instanceof Set)) {
+        fail({ code: 'invalid_type', expected: 'Set', received: runtimeName(object) }, 'transform', s.with('set:transform'), object)
+      }
+
+      const issues = collector()
+      const items = copying(object, s, 'set:transform', () => Array.from(object).map(
+        (e, i) => issues.attempt(() => itemSchema.transform(e, descend(s, () => `set:transform[${i}]`, i)))
+      ))
+      issues.throwIfAny(s)
+
+      return items as S[]
+    },
+    restore: (json: Array<S>, s: Stack = stack()) => {
+      if (!Array.isArray(json)) {
+        fail({ code: 'invalid_type', expected: 'array', received: typeName(json) }, 'restore', s.with('set:restore'), json)
+      }
+
+      const issues = collector()
+      const items = json.map((e, i) => issues.attempt(() => itemSchema.restore(e, descend(s, () => `set:restore[${i}]`, i))))
+      issues.throwIfAny(s)
+
+      return new Set(items as T[])
+    },
+    node: { kind: 'set', item: itemSchema }
+  }
+}
+
+/** options for `codec` */
+export interface CodecOptions<A, B> {
+  /** name of the conversion, used in the stack and in error messages, e.g. `gzip` */
+  name?: string
+  /** convert a value to its serialized form */
+  encode: (value: A) => B
+  /** convert a serialized value back. Throwing reports the value as not being in the expected format */
+  decode: (value: B) => A
+  /** check a serialized value before decoding it. By default, every value is handed to `decode` */
+  validate?: (value: unknown) => boolean
+}
+
+/** show a serialized value in an error message, shortening long strings */
+function preview(v: any): string {
+  if (typeof v !== 'string') {
+    return runtimeName(v)
+  }
+
+  return JSON.stringify(v.length > 32 ? `${v.slice(0, 32)}...` : v)
+}
+
+/**
+ * Expresses a user-defined bidirectional conversion, e.g. compression or an encoding.
+ * Errors other than `TransformationError`s raised by `encode` and `decode` are reported as issues.
+ * Combine codecs with other Bounds using `pipe`.
+ * @param options see `CodecOptions`
+ */
+export function codec<A, B>({ name = 'codec', encode, decode, validate }: CodecOptions<A, B>): Bound<A, B> {
+  const causeOf = (e: unknown) => e instanceof Error ? e.message : String(e)
+
+  return {
+    transform: (object: A, s: Stack = stack()) => {
+      s = s.with(`${name}:transform`)
+      try {
+        return encode(object)
+      } catch (e) {
+        if (e instanceof TransformationError) {
+          throw e
+        }
+
+        return fail({ code: 'custom', message: `Could not encode with ${name}: ${causeOf(e)}` }, 'transform', s, object)
+      }
+    },
+    restore: (json: B, s: Stack = stack()) => {
+      s = s.with(`${name}:restore`)
+      if (validate !== undefined && !validate(json)) {
+        fail({ code: 'invalid_format', expected: name, received: preview(json) }, 'restore', s, json)
+      }
+
+      try {
+        return decode(json)
+      } catch (e) {
+        if (e instanceof TransformationError) {
+          throw e
+        }
+
+        return fail({ code: 'invalid_format', expected: name, received: preview(json), params: { cause: causeOf(e) } }, 'restore', s, json)
+      }
+    },
+    node: { kind: 'codec', name }
+  }
+}
+
+/** name a step of a pipe in the stack */
+function stepName(bound: Bound<any, any>): string {
+  const node = bound.node
+  return node?.kind === 'codec' ? node.name : node?.kind ?? 'custom'
+}
+
+/**
+ * Chain Bounds into one, each converting the serialized form of the previous one:
+ * transformation runs them first to last, and restoration last to first.
+ * For instance, `pipe(schema, json, gzip, base64)` stores a schema as base64 of gzipped JSON.
+ * @param steps Bounds to chain, each one's serialized type being the next one's runtime type
+ */
+export function pipe<A, B, C>(first: Bound<A, B>, second: Bound<B, C>): Bound<A, C>
+export function pipe<A, B, C, D>(first: Bound<A, B>, second: Bound<B, C>, third: Bound<C, D>): Bound<A, D>
+export function pipe<A, B, C, D, E>(first: Bound<A, B>, second: Bound<B, C>, third: Bound<C, D>, fourth: Bound<D, E>): Bound<A, E>
+export function pipe(...steps: Bound<any, any>[]): Bound<any, any> {
+  return {
+    transform: (object: any, s: Stack = stack()) => steps.reduce(
+      (value, step, i) => step.transform(value, s.with(`pipe:transform[${i} ${stepName(step)}]`)),
+      object
+    ),
+    restore: (json: any, s: Stack = stack()) => steps.reduceRight(
+      (value, step, i) => step.restore(value, s.with(`pipe:restore[${i} ${stepName(step)}]`)),
+      json
+    ),
+    node: { kind: 'pipe', steps }
+  }
+}
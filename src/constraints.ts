@@ -0,0 +1,184 @@
+import { collector, stack, TransformationError } from "./errors"
+import { concealing } from "./redact"
+import { Bound, Direction, IssueDetails, PathSegment, Stack } from "./types"
+
+/** an issue found by a check, optionally below the checked value, e.g. at a duplicate array item */
+type Problem = IssueDetails & { at?: PathSegment }
+
+/** a Bound checking the runtime value of another one once its type is known to be right, on both sides */
+function refinement<T, L>(
+  schema: Bound<T, L>,
+  check: string,
+  params: Record<string, any>,
+  problems: (value: T) => Problem[]
+): Bound<T, L> {
+  const verify = (value: T, direction: Direction, s: Stack) => {
+    s = s.with(`${check}:${direction}`)
+    const issues = collector()
+    for (const { at, ...details } of problems(value)) {
+      const where = at === undefined ? s : s.with(`${check}:${direction}[${at}]`, at)
+      issues.add(new TransformationError({ ...details, direction }, where, at === undefined ? value : (value as any)[at]))
+    }
+
+    issues.throwIfAny(s)
+  }
+
+  return concealing({
+    ...schema,
+    transform: (object: T, s: Stack = stack()) => {
+      const transformed = schema.transform(object, s)
+      verify(object, 'transform', s)
+      return transformed
+    },
+    restore: (json: L, s: Stack = stack()) => {
+      const restored = schema.restore(json, s)
+      verify(restored, 'restore', s)
+      return restored
+    },
+    node: { kind: 'refined', inner: schema, check, params }
+  }, 'runtime')
+}
+
+/**
+ * Constrain the runtime values of a schema with a predicate, keeping its types.
+ * The predicate runs after the schema itself, so it only ever sees values of the right type.
+ * @param schema expression of the value
+ * @param predicate check the value must pass
+ * @param message reason given when the check fails, or a function producing it (or a whole issue) from the value
+ */
+export function refine<T, L>(
+  schema: Bound<T, L>,
+  predicate: (value: T) => boolean,
+  message: string | ((value: T) => string | IssueDetails) = 'Failed validation'
+): Bound<T, L> {
+  return refinement(schema, 'refine', {}, value => {
+    if (predicate(value)) {
+      return []
+    }
+
+    const issue = typeof message === 'function' ? message(value) : message
+    return [typeof issue === 'string' ? { code: 'custom', message: issue } : issue]
+  })
+}
+
+function lengthOf(value: string | readonly unknown[]): [number, 'string' | 'array'] {
+  return [value.length, typeof value === 'string' ? 'string' : 'array']
+}
+
+/** require a string to have, or an array to hold, at least `minimum` characters or items */
+export function minLength<T extends string | readonly unknown[], L>(schema: Bound<T, L>, minimum: number): Bound<T, L> {
+  return refinement(schema, 'minLength', { minimum }, value => {
+    const [length, type] = lengthOf(value)
+    return length >= minimum ? [] : [{ code: 'too_small', received: String(length), params: { minimum, type } }]
+  })
+}
+
+/** require a string to have, or an array to hold, at most `maximum` characters or items */
+export function maxLength<T extends string | readonly unknown[], L>(schema: Bound<T, L>, maximum: number): Bound<T, L> {
+  return refinement(schema, 'maxLength', { maximum }, value => {
+    const [length, type] = lengthOf(value)
+    return length <= maximum ? [] : [{ code: 'too_big', received: String(length), params: { maximum, type } }]
+  })
+}
+
+/** check a string against a regular expression, described as `expected` in messages */
+function matching<L>(
+  schema: Bound<string, L>,
+  check: string,
+  regex: RegExp,
+  expected: string
+): Bound<string, L> {
+  return refinement(schema, check, { pattern: regex }, value => {
+    regex.lastIndex = 0
+    return regex.test(value)
+      ? []
+      : [{ code: 'invalid_string', expected, received: JSON.stringify(value), params: { validation: check } }]
+  })
+}
+
+/** require a string to match a regular expression */
+export function pattern<L>(schema: Bound<string, L>, regex: RegExp): Bound<string, L> {
+  return matching(schema, 'pattern', regex, `a string matching ${regex}`)
+}
+
+/** require a string to look like an email address: something, an `@`, then a domain name with a dot */
+export function email<L>(schema: Bound<string, L>): Bound<string, L> {
+  return matching(schema, 'email', /^[^\s@]+@[^\s@.]+(\.[^\s@.]+)+$/, 'an email address')
+}
+
+/** require a string to be a UUID in its canonical, hyphenated form. Either case is accepted */
+export function uuid<L>(schema: Bound<string, L>): Bound<string, L> {
+  return matching(schema, 'uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, 'a UUID')
+}
+
+/** require a string to have no leading or trailing whitespace */
+export function trimmed<L>(schema: Bound<string, L>): Bound<string, L> {
+  return refinement(schema, 'trimmed', {}, value => value === value.trim()
+    ? []
+    : [{
+      code: 'invalid_string',
+      expected: 'a string without leading or trailing whitespace',
+      received: JSON.stringify(value),
+      params: { validation: 'trimmed' }
+    }])
+}
+
+/** require a number to be an integer */
+export function integer<L>(schema: Bound<number, L>): Bound<number, L> {
+  return refinement(schema, 'integer', {}, value => Number.isInteger(value)
+    ? []
+    : [{ code: 'not_integer', received: String(value) }])
+}
+
+/** require a number to be greater than or equal to `minimum` */
+export function min<L>(schema: Bound<number, L>, minimum: number): Bound<number, L> {
+  return refinement(schema, 'min', { minimum }, value => value >= minimum
+    ? []
+    : [{ code: 'too_small', received: String(value), params: { minimum, type: 'number' } }])
+}
+
+/** require a number to be less than or equal to `maximum` */
+export function max<L>(schema: Bound<number, L>, maximum: number): Bound<number, L> {
+  return refinement(schema, 'max', { maximum }, value => value <= maximum
+    ? []
+    : [{ code: 'too_big', received: String(value), params: { maximum, type: 'number' } }])
+}
+
+/** require a number to be neither infinite nor NaN */
+export function finite<L>(schema: Bound<number, L>): Bound<number, L> {
+  return refinement(schema, 'finite', {}, value => Number.isFinite(value)
+    ? []
+    : [{ code: 'not_finite', received: String(value) }])
+}
+
+/** require a number to be a multiple of `step`, allowing for floating point error (e.g. 0.3 is a multiple of 0.1) */
+export function multipleOf<L>(schema: Bound<number, L>, step: number): Bound<number, L> {
+  return refinement(schema, 'multipleOf', { step }, value => {
+    const quotient = value / step
+    return Math.abs(quotient - Math.round(quotient)) < 1e-9
+      ? []
+      : [{ code: 'not_multiple_of', received: String(value), params: { step } }]
+  })
+}
+
+/**
+ * Require the items of an array to be distinct, reporting each repeated item at its own index.
+ * Items are compared with `SameValueZero`, as by a `Set`, unless a key is given to compare them by.
+ * @param schema expression of the array
+ * @param by computes what items are compared by, e.g. their `id`
+ */
+export function unique<I, L>(schema: Bound<I[], L>, by?: (item: I) => unknown): Bound<I[], L> {
+  return refinement(schema, 'unique', { by }, value => {
+    const seen = new Map<unknown, number>()
+    return value.flatMap((item, i): Problem[] => {
+      const key = by === undefined ? item : by(item)
+      const first = seen.get(key)
+      if (first === undefined) {
+        seen.set(key, i)
+        return []
+      }
+
+      return [{ code: 'not_unique', at: i, params: { index: first } }]
+    })
+  })
+}
@@ -0,0 +1,92 @@
+import { extendObject, field, object, optional } from "./index"
+import { reflect, withMeta } from "./reflection"
+import { Bound, DeepPartialShape, NamingStrategy, ObjectBound, PartialShape, RequiredShape, Shape } from "./types"
+
+/**
+ * build a new object schema from the shape of an existing one, keeping its options and metadata.
+ * Objects combined with `extendObject` are derived side by side, then combined again.
+ */
+function derive(bound: Bound<any, any>, reshape: (shape: Shape) => Shape): Bound<any, any> {
+  const node = reflect(bound)
+  let derived: Bound<any, any>
+  switch (node.kind) {
+    case 'object':
+      derived = object(reshape(node.shape), { unknownKeys: node.unknownKeys, naming: node.naming })
+      break
+    case 'extend':
+      derived = extendObject(derive(node.base, reshape), derive(node.extension, reshape))
+      break
+    default:
+      throw new Error(`Schemas can only be derived from object schemas, got '${node.kind}'`)
+  }
+
+  return node.meta !== undefined ? withMeta(derived, node.meta) : derived
+}
+
+/** replace a field with another Bound, keeping the wire key it was given with `field` */
+function replaceField(original: Bound<any, any>, replacement: Bound<any, any>): Bound<any, any> {
+  const wireKey = original.attributes?.wireKey
+  return wireKey === undefined ? replacement : field(wireKey, replacement)
+}
+
+function mapShape(shape: Shape, map: (bound: Bound<any, any>) => Bound<any, any>): Shape {
+  return Object.fromEntries(Object.entries(shape).map(([key, bound]) => [key, map(bound)]))
+}
+
+function optionalField(bound: Bound<any, any>): Bound<any, any> {
+  return bound.attributes?.optional === true ? bound : replaceField(bound, optional(bound))
+}
+
+/** Derive an object schema whose fields are all optional, e.g. for PATCH payloads */
+export function partial<S extends Shape, N extends NamingStrategy>(schema: ObjectBound<S, N>): ObjectBound<PartialShape<S>, N> {
+  return derive(schema, shape => mapShape(shape, optionalField)) as ObjectBound<PartialShape<S>, N>
+}
+
+/** Derive an object schema whose fields are all optional, along with those of the objects nested directly within it */
+export function deepPartial<S extends Shape, N extends NamingStrategy>(schema: ObjectBound<S, N>): ObjectBound<DeepPartialShape<S>, N> {
+  const deepen = (bound: Bound<any, any>): Bound<any, any> => {
+    const kind = reflect(bound).kind
+    const nested = kind === 'object' || kind === 'extend'
+      ? replaceField(bound, derive(bound, shape => mapShape(shape, deepen)))
+      : bound
+    return optionalField(nested)
+  }
+
+  return derive(schema, shape => mapShape(shape, deepen)) as ObjectBound<DeepPartialShape<S>, N>
+}
+
+/** Derive an object schema whose fields are all required. Optional fields and fields with a default lose that */
+export function required<S extends Shape, N extends NamingStrategy>(schema: ObjectBound<S, N>): ObjectBound<RequiredShape<S>, N> {
+  return derive(schema, shape => mapShape(shape, bound => {
+    const node = reflect(bound)
+    return node.kind === 'optional' || node.kind === 'withDefault' ? replaceField(bound, node.inner) : bound
+  })) as ObjectBound<RequiredShape<S>, N>
+}
+
+/**
+ * Derive an object schema with only some of the fields of another
+ * @param schema object schema to derive from
+ * @param keys runtime keys of the fields to keep
+ */
+export function pick<S extends Shape, N extends NamingStrategy, K extends keyof S & string>(
+  schema: ObjectBound<S, N>,
+  keys: readonly K[]
+): ObjectBound<Pick<S, K>, N> {
+  return derive(schema, shape => Object.fromEntries(
+    Object.entries(shape).filter(([key]) => (keys as readonly string[]).includes(key))
+  )) as ObjectBound<Pick<S, K>, N>
+}
+
+/**
+ * Derive an object schema without some of the fields of another
+ * @param schema object schema to derive from
+ * @param keys runtime keys of the fields to leave out
+ */
+export function omit<S extends Shape, N extends NamingStrategy, K extends keyof S & string>(
+  schema: ObjectBound<S, N>,
+  keys: readonly K[]
+): ObjectBound<Omit<S, K>, N> {
+  return derive(schema, shape => Object.fromEntries(
+    Object.entries(shape).filter(([key]) => !(keys as readonly string[]).includes(key))
+  )) as ObjectBound<Omit<S, K>, N>
+}
@@ -1,24 +1,293 @@
-import { Bound, DefaultStackType, Stack, ToStringable } from "./types"
+import {
+  Bound,
+  DefaultStackType,
+  Direction,
+  ErrorFormatter,
+  Issue,
+  IssueCode,
+  IssueCollector,
+  IssueDetails,
+  PathSegment,
+  SafeResult,
+  Stack,
+  ToStringable,
+  TransformationContext
+} from "./types"
 
-export class TransformationError<T extends ToStringable> {
-  constructor(public message: string, customStack: Stack<T> = stack(), public offender?: any) {
+/** the formatter used to produce messages for issues that don't carry their own */
+export const DefaultErrorFormatter: ErrorFormatter = (issue: Issue) => {
+  if (issue.message !== undefined) {
+    return issue.message
+  }
+
+  switch (issue.code) {
+    case 'invalid_type':
+      return `expected '${issue.expected}', received '${issue.received}'`
+    case 'missing_key':
+      return `Missing required object key '${issue.params?.key}'`
+    case 'no_union_match':
+      if (issue.params?.branches !== undefined) {
+        const reasons = (issue.params.branches as Array<{ branch: string, issues: TransformationError[] }>)
+          .map(({ branch, issues }) => `'${branch}': ${issues.map(e => `${e.pointer || '/'} ${e.message}`).join(', ')}`)
+        return `No union branch matched (${reasons.join('; ')})`
+      }
+
+      return 'No matching union discriminator'
+    case 'invalid_discriminator':
+      return issue.received === 'undefined'
+        ? `Missing discriminator '${issue.params?.key}', expected one of ${issue.expected}`
+        : `Unknown discriminator '${issue.params?.key}' value ${issue.received}, expected one of ${issue.expected}`
+    case 'literal_mismatch':
+      return `expected literal ${issue.expected}, received ${issue.received}`
+    case 'invalid_enum_value':
+      return `expected one of ${issue.expected}, received ${issue.received}`
+    case 'unrecognized_keys':
+      return `Unrecognized object keys ${(issue.params?.keys as string[]).map(k => `'${k}'`).join(', ')}`
+    case 'invalid_format':
+      if (issue.params?.line !== undefined) {
+        return `expected ${issue.expected}, received ${issue.received} at line ${issue.params.line}, column ${issue.params.column}`
+      }
+
+      return issue.params?.offset !== undefined
+        ? `expected ${issue.expected}, received ${issue.received} at byte ${issue.params.offset}`
+        : `expected ${issue.expected}, received ${issue.received}`
+    case 'migration_failed':
+      return `Migration from version ${issue.params?.from} to ${issue.params?.to} failed: ${issue.params?.cause}`
+    case 'too_small':
+      return issue.params?.type === 'number'
+        ? `expected a number greater than or equal to ${issue.params.minimum}, received ${issue.received}`
+        : `expected at least ${issue.params?.minimum} ${issue.params?.type === 'string' ? 'characters' : 'items'}, received ${issue.received}`
+    case 'too_big':
+      return issue.params?.type === 'number'
+        ? `expected a number less than or equal to ${issue.params.maximum}, received ${issue.received}`
+        : `expected at most ${issue.params?.maximum} ${issue.params?.type === 'string' ? 'characters' : 'items'}, received ${issue.received}`
+    case 'invalid_string':
+      return `expected ${issue.expected}, received ${issue.received}`
+    case 'not_integer':
+      return `expected an integer, received ${issue.received}`
+    case 'not_finite':
+      return `expected a finite number, received ${issue.received}`
+    case 'not_multiple_of':
+      return `expected a multiple of ${issue.params?.step}, received ${issue.received}`
+    case 'not_unique':
+      return `Duplicate item, first seen at index ${issue.params?.index}`
+    case 'unresolved_reference':
+      return `Unresolved reference '${issue.params?.ref}'`
+    case 'reserved_key':
+      return `Object key '${issue.params?.key}' is reserved for references`
+    case 'unsupported_cycle':
+      return `Cycle through ${issue.params?.type === 'array' ? 'an' : 'a'} ${issue.params?.type}, while only objects can be referenced`
+    case 'invalid_intersection':
+      return `The two sides of the intersection produced values that can't be merged`
+    case 'invalid_patch':
+      return `Cannot apply '${issue.params?.op}' operation: ${issue.params?.reason}`
+    case 'multiple_issues':
+      return `${issue.params?.count} issues found`
+    default:
+      return 'Failed validation'
+  }
+}
+
+let ActiveErrorFormatter: ErrorFormatter = DefaultErrorFormatter
+export function SetDefaultErrorFormatter(formatter: ErrorFormatter = DefaultErrorFormatter) {
+  ActiveErrorFormatter = formatter
+}
+
+/** describe the type of a value the way issues report it */
+export function typeName(v: any): string {
+  if (v === null) {
+    return 'null'
+  }
+
+  return Array.isArray(v) ? 'array' : typeof v
+}
+
+/** build a JSON Pointer (RFC 6901) from a path */
+export function toPointer(path: PathSegment[]): string {
+  return path.map(p => '/' + String(p).replace(/~/g, '~0').replace(/\//g, '~1')).join('')
+}
+
+export class TransformationError<T extends ToStringable = DefaultStackType> extends Error {
+  constructor(
+    issue: string | IssueDetails,
+    customStack: Stack<T> = stack(),
+    public offender?: any,
+    /** every underlying issue, when this error aggregates several of them */
+    public issues: TransformationError<T>[] = []
+  ) {
+    const details: IssueDetails = typeof issue === 'string' ? { code: 'custom', message: issue } : issue
+    const summary = issues.map(e => `\n  ${e.pointer || '/'}: ${e.message}`).join('')
+    super(ActiveErrorFormatter({ ...details, path: customStack.path }) + summary)
+
+    this.name = 'TransformationError'
+    this.details = details
+    this.path = customStack.path
     this.location = customStack.stack.map(e => e.toString()).join(' -> ') + "(!!)"
   }
 
+  /** the raw description this error was built from */
+  readonly details: IssueDetails
+  /** keys and indices leading to the offending value */
+  readonly path: PathSegment[]
   location: string
 
+  get code(): IssueCode { return this.details.code }
+  get direction(): Direction | undefined { return this.details.direction }
+  get expected(): string | undefined { return this.details.expected }
+  get received(): string | undefined { return this.details.received }
+
+  /** the path as a JSON Pointer */
+  get pointer(): string {
+    return toPointer(this.path)
+  }
+
+  /** structured, serializable form of this error */
+  toIssue(): Issue {
+    return { ...this.details, message: this.message, path: this.path }
+  }
+
+  /** render this error's message with a different formatter, e.g. to localize it */
+  format(formatter: ErrorFormatter = ActiveErrorFormatter): string {
+    if (this.issues.length > 0) {
+      return this.issues.map(e => `${e.pointer || '/'}: ${e.format(formatter)}`).join('\n')
+    }
+
+    return formatter({ ...this.details, path: this.path })
+  }
+
   toString(): string {
-    return "hi"
+    return `${this.name} [${this.code}] at ${this.pointer || '/'}: ${this.message}`
+  }
+}
+
+export function stack<T extends ToStringable = DefaultStackType>(
+  existing: T[] = [],
+  path: PathSegment[] = [],
+  context: TransformationContext = {}
+): Stack<T> {
+  return {
+    with: (message: T, key?: PathSegment) => stack(existing.concat(message), key === undefined ? path : path.concat(key), context),
+    withContext: (overrides: TransformationContext) => stack(existing, path, {
+      ...context,
+      ...overrides,
+      data: { ...context.data, ...overrides.data }
+    }),
+    stack: existing,
+    path,
+    context
+  }
+}
+
+/** stacks that track nothing, for which labels needn't be built */
+const untracked = new WeakSet<Stack<any>>()
+
+/**
+ * a stack that tracks nothing, so that walking a schema allocates nothing per node, as `compile` does.
+ * Only the context is kept, as Bounds read it. Reference mode needs positions, so entering it tracks them again
+ */
+export function quietStack(context: TransformationContext = {}): Stack {
+  const s: Stack = {
+    with: () => s,
+    withContext: (overrides: TransformationContext) => {
+      const within = stack<string>([], [], context).withContext(overrides)
+      return within.context.references === undefined ? quietStack(within.context) : within
+    },
+    stack: [],
+    path: [],
+    context
+  }
+
+  untracked.add(s)
+  return s
+}
+
+/** the stack of an entry of a collection at `key`, only building its label when the stack keeps it */
+export function descend(s: Stack, label: () => string, key: PathSegment): Stack {
+  return untracked.has(s) ? s : s.with(label(), key)
+}
+
+/**
+ * in reference mode, copy a collection that isn't emitted with an `$id`, such as an array, refusing one found within itself,
+ * as its copy would never end. `label` names the collection, e.g. `array:transform`
+ */
+export function copying<R>(collection: object, s: Stack, label: string, copy: () => R): R {
+  const table = s.context.references
+  if (table === undefined || !table.shared.has(collection)) {
+    return copy()
+  }
+
+  if (table.copying.has(collection)) {
+    const type = label.slice(0, label.indexOf(':'))
+    throw new TransformationError({ code: 'unsupported_cycle', direction: 'transform', params: { type } }, s.with(label), collection)
+  }
+
+  table.copying.add(collection)
+  try {
+    return copy()
+  } finally {
+    table.copying.delete(collection)
   }
 }
 
-export function stack<T extends ToStringable = DefaultStackType>(existing: T[] = []): Stack<T> {
+/** flatten an error into the list of individual issues it represents */
+export function issuesOf<T extends ToStringable>(error: TransformationError<T>): TransformationError<T>[] {
+  return error.issues.length > 0 ? error.issues : [error]
+}
+
+export function collector<T extends ToStringable = DefaultStackType>(): IssueCollector<T> {
+  const issues: TransformationError<T>[] = []
   return {
-    with: (message: T) => stack(existing.concat(message)),
-    stack: existing
+    attempt: <R>(step: () => R) => {
+      try {
+        return step()
+      } catch (e) {
+        if (!(e instanceof TransformationError)) {
+          throw e
+        }
+
+        issues.push(...issuesOf(e as TransformationError<T>))
+        return undefined
+      }
+    },
+    add: (error: TransformationError<T>) => {
+      issues.push(...issuesOf(error))
+    },
+    issues,
+    throwIfAny: (s: Stack<T>) => {
+      if (issues.length === 1) {
+        throw issues[0]
+      }
+
+      if (issues.length > 1) {
+        const details: IssueDetails = { code: 'multiple_issues', direction: issues[0].direction, params: { count: issues.length } }
+        throw new TransformationError(details, s, undefined, issues.slice())
+      }
+    }
   }
 }
 
+function attemptSafely<T>(step: () => T): SafeResult<T> {
+  try {
+    return { success: true, data: step() }
+  } catch (e) {
+    if (!(e instanceof TransformationError)) {
+      throw e
+    }
+
+    return { success: false, issues: issuesOf(e) }
+  }
+}
+
+/** transform a value without throwing, reporting every issue found throughout the tree */
+export function safeTransform<T, U>(schema: Bound<T, U>, object: T, context?: TransformationContext): SafeResult<U> {
+  return attemptSafely(() => schema.transform(object, stack().withContext(context ?? {})))
+}
+
+/** restore a value without throwing, reporting every issue found throughout the tree */
+export function safeRestore<T, U>(schema: Bound<T, U>, json: unknown, context?: TransformationContext): SafeResult<T> {
+  return attemptSafely(() => schema.restore(json as U, stack().withContext(context ?? {})))
+}
+
 /** convenience wrapper to push a stack message on simple alias types */
 export function stackwrap<T, U>(upstream: Bound<T, U>, thisMessage: string): Bound<T, U> {
   return {
@@ -29,6 +298,8 @@ export function stackwrap<T, U>(upstream: Bound<T, U>, thisMessage: string): Bou
     restore: (json: U, s: Stack = stack()) => {
       s = s.with(thisMessage)
       return upstream.restore(json, s)
-    }
+    },
+    attributes: upstream.attributes,
+    node: upstream.node
   }
 }
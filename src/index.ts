@@ -1,43 +1,154 @@
-import { stack, stackwrap, TransformationError } from "./errors"
+import { collector, copying, descend, issuesOf, quietStack, safeTransform, stack, stackwrap, toPointer, TransformationError, typeName } from "./errors"
+import { fromWireKey, toWireKey, wireKeys } from "./naming"
+import { concealing } from "./redact"
 import { DefaultSerializationConfig } from "./serialization"
-import { Bound, Stack, Literal, PrimitiveRecord, SerializationConfig, Unwrap } from "./types"
+import {
+  Bound,
+  CustomNaming,
+  Defaulted,
+  Direction,
+  Infer,
+  InferShape,
+  IssueCollector,
+  IssueDetails,
+  Literal,
+  NamingStrategy,
+  ObjectBound,
+  Optional,
+  PrimitiveRecord,
+  ReferenceTable,
+  ResolvedShape,
+  Serialized,
+  SerializationConfig,
+  SerializedShape,
+  Shape,
+  Simplify,
+  Stack,
+  TransformationContext,
+  UnknownKeyPolicy,
+  Unwrap
+} from "./types"
 
+export * from "./arbitrary"
+export * from "./codecs"
+export * from "./constraints"
+export * from "./derived"
+export * from "./errors"
+export * from "./jsonschema"
+export * from "./naming"
+export * from "./patch"
+export * from "./redact"
+export * from "./reflection"
 export * from "./serialization"
+export * from "./stream"
 export * from "./types"
 
 /** represents any type. use with care. */
 export function any(): Bound<any, any> {
   return {
     transform: (object: any) => object,
-    restore: (json: any) => json
+    restore: (json: any) => json,
+    node: { kind: 'any' }
   }
 }
 
-/** validate a value with given functions upon transformation/restoration */
-export function validated<T extends Literal>(
+/** validate a value upon transformation/restoration, raising the described issue when it fails */
+function checked<T>(
   validator: (v: any) => boolean,
-  reason: (v: any) => string = () => 'Failed validation'
-): Bound<T, Literal> {
+  issue: (v: any) => IssueDetails
+): Bound<T, T> {
   return {
-    transform: (object: T, s: Stack) => {
+    transform: (object: T, s: Stack = stack()) => {
       if (!validator(object)) {
-        throw new TransformationError(reason(object), s, object)
+        throw new TransformationError({ ...issue(object), direction: 'transform' }, s, object)
       }
 
-      return object as Literal
+      return object
     },
-    restore: (json: Literal, s: Stack) => {
+    restore: (json: T, s: Stack = stack()) => {
       if (!validator(json)) {
-        throw new TransformationError(reason(object), s, object)
+        throw new TransformationError({ ...issue(json), direction: 'restore' }, s, json)
       }
 
-      return json as T
+      return json
     }
   }
 }
 
+/** how a primitive is read from a string when restoring in coercion mode */
+interface Coercion<T> {
+  /** parse a string, returning undefined when it doesn't represent a value of the type */
+  parse: (str: string) => T | undefined
+  /** describes the strings `parse` accepts, for error messages */
+  format: string
+}
+
+/** expresses a value of a given primitive type, as reported by `typeName` */
+function primitive<T>(
+  expected: 'string' | 'number' | 'boolean' | 'null',
+  label: string = expected,
+  coercion?: Coercion<T>
+): Bound<T, T> {
+  const bound = stackwrap(
+    checked<T>(
+      (v: any) => typeName(v) === expected,
+      v => ({ code: 'invalid_type', expected, received: typeName(v) })
+    ),
+    label
+  )
+
+  return {
+    ...bound,
+    restore: (json: T, s: Stack = stack()) => {
+      if (coercion === undefined || !s.context.coerce || typeof json !== 'string') {
+        return bound.restore(json, s)
+      }
+
+      const parsed = coercion.parse(json)
+      if (parsed === undefined) {
+        throw new TransformationError(
+          { code: 'invalid_format', direction: 'restore', expected: coercion.format, received: JSON.stringify(json) },
+          s.with(label),
+          json
+        )
+      }
+
+      return bound.restore(parsed, s)
+    },
+    node: { kind: expected }
+  }
+}
+
+/** validate a value with given functions upon transformation/restoration */
+export function validated<T extends Literal>(
+  validator: (v: any) => boolean,
+  reason: (v: any) => string = () => 'Failed validation'
+): Bound<T, Literal> {
+  return {
+    ...checked<T>(validator, v => ({ code: 'custom', message: reason(v) })) as Bound<T, Literal>,
+    node: { kind: 'validated' }
+  }
+}
+
+/**
+ * Defer building a schema until it's first used, to express recursive structures such as trees.
+ * The schema referring to itself needs an explicit type, e.g. `const tree: Bound<Tree, TreeJson> = object({ children: array(lazy(() => tree)) })`.
+ * Attributes aren't known until then, so wrap `optional` and `field` around `lazy` rather than within it.
+ * @param factory builds the deferred schema
+ */
+export function lazy<T, L>(factory: () => Bound<T, L>): Bound<T, L> {
+  let schema: Bound<T, L> | undefined
+  const resolve = () => schema ??= factory()
+
+  return {
+    transform: (object: T, s: Stack = stack()) => resolve().transform(object, s),
+    restore: (json: L, s: Stack = stack()) => resolve().restore(json, s),
+    node: { kind: 'lazy', schema: resolve }
+  }
+}
+
 /** Make a provided type expression optional */
-export function optional<T, L>(schema: Bound<T, L>): Bound<T|undefined, L|undefined> {
+export function optional<T, L>(schema: Bound<T, L>): Optional<T, L> {
   return {
     transform: (object: T|undefined, s: Stack) => {
       return object === undefined ? undefined : schema.transform(object, s)
@@ -47,71 +158,371 @@ export function optional<T, L>(schema: Bound<T, L>): Bound<T|undefined, L|undefi
     },
     attributes: {
       optional: true
-    }
+    },
+    node: { kind: 'optional', inner: schema }
   }
 }
 
-/** Make a provided type expression nullable */
+/** Make a provided type expression nullable. In coercion mode, the string `'null'` is restored as null too */
 export function nullable<T, L>(schema: Bound<T, L>): Bound<T|null, L|null> {
   return {
     transform: (object: T|null, s: Stack) => {
       return object === null ? null : schema.transform(object, s)
     },
-    restore: (json: L, s: Stack) => {
-      return json === null ? null : schema.restore(json, s)
+    restore: (json: L, s: Stack = stack()) => {
+      return json === null || (s.context.coerce && json === 'null') ? null : schema.restore(json, s)
     },
     attributes: {
       nullable: true
-    }
+    },
+    node: { kind: 'nullable', inner: schema }
   }
 }
 
-/** Extend an existing object schema with another */
-export function extendObject<BS extends {}, BD, WS extends {}, WD>(baseSchema: Bound<BS, BD>, withSchema: Bound<WS, WD>): Bound<BS&WS, BD&WD> {
+/**
+ * Fill in a default when the serialized value is missing, e.g. for fields added after documents were persisted.
+ * Object keys using it may be left out on the wire, but are always present once restored.
+ * @param schema expression of the value
+ * @param value default value, or a function producing a fresh one upon each restoration
+ */
+export function withDefault<T, L>(schema: Bound<T, L>, value: T | (() => T)): Defaulted<T, L> {
   return {
-    transform: (object: BS&WS, s: Stack) => {
-      return {
-        ...baseSchema.transform(object, s),
-        ...withSchema.transform(object, s)
+    transform: (object: T, s: Stack = stack()) => {
+      return schema.transform(object, s)
+    },
+    restore: (json: L | undefined, s: Stack = stack()) => {
+      if (json === undefined) {
+        return typeof value === 'function' ? (value as () => T)() : value
       }
+
+      return schema.restore(json, s)
+    },
+    attributes: {
+      optional: true,
+      defaulted: true
     },
-    restore: (json: BD&WD, s: Stack) => {
-      return {
-        ...baseSchema.restore(json, s),
-        ...withSchema.restore(json, s)
+    node: { kind: 'withDefault', inner: schema, value }
+  }
+}
+
+/** whether a restored value is a class instance rather than a plain object */
+function isInstance(v: any): boolean {
+  const prototype = Object.getPrototypeOf(v)
+  return prototype !== null && prototype !== Object.prototype
+}
+
+/** combine two restored objects, keeping class instances (preferring the extension's) intact */
+function combine(base: any, extension: any): any {
+  if (isInstance(extension)) {
+    for (const key of Object.keys(base)) {
+      if (!Object.prototype.hasOwnProperty.call(extension, key)) {
+        extension[key] = base[key]
       }
     }
+
+    return extension
+  }
+
+  if (isInstance(base)) {
+    return Object.assign(base, extension)
+  }
+
+  return { ...base, ...extension }
+}
+
+/** keys declared by an object-like schema, as found on the runtime or the wire side */
+function declaredKeys(bound: Bound<any, any>, direction: Direction): string[] {
+  const node = bound.node
+  switch (node?.kind) {
+    case 'object':
+      return direction === 'transform' ? Object.keys(node.shape) : Object.values(wireKeys(node.shape, node.naming))
+    case 'extend':
+      return declaredKeys(node.base, direction).concat(declaredKeys(node.extension, direction))
+    case 'intersection':
+      return declaredKeys(node.left, direction).concat(declaredKeys(node.right, direction))
+    case 'class':
+      return declaredKeys(node.schema, direction)
+    default:
+      return []
+  }
+}
+
+/** the schema of a field declared by an object-like schema, and its key on the wire */
+function declaredField(bound: Bound<any, any>, key: string): { wireKey: string, schema: Bound<any, any> } | undefined {
+  const node = bound.node
+  switch (node?.kind) {
+    case 'object':
+      return Object.prototype.hasOwnProperty.call(node.shape, key)
+        ? { wireKey: wireKeys(node.shape, node.naming)[key], schema: node.shape[key] }
+        : undefined
+    case 'extend':
+      return declaredField(node.extension, key) ?? declaredField(node.base, key)
+    case 'intersection':
+      return declaredField(node.left, key) ?? declaredField(node.right, key)
+    case 'class':
+      return declaredField(node.schema, key)
+    case 'refined':
+      return declaredField(node.inner, key)
+    case 'lazy':
+      return declaredField(node.schema(), key)
+    default:
+      return undefined
+  }
+}
+
+/** shallow copy of an object without the given keys, keeping its prototype */
+function without(value: any, keys: string[]): any {
+  if (typeName(value) !== 'object' || !keys.some(key => key in value)) {
+    return value
+  }
+
+  const copy = Object.create(Object.getPrototypeOf(value))
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) {
+      copy[key] = value[key]
+    }
+  }
+
+  return copy
+}
+
+/**
+ * in reference mode, emit an object reached more than once with an `$id` the first time, and as a `$ref` to it afterwards.
+ * Bounds layered over the same value at the same place (e.g. a class over its fields) leave it to the outermost one.
+ * Objects holding a key used as a marker are refused, as they couldn't be told apart from markers upon restoration
+ */
+function transformShared<R>(object: object, s: Stack, transform: () => R): R | Record<string, string> {
+  const table = s.context.references
+  if (table === undefined) {
+    return transform()
+  }
+
+  const pointer = toPointer(s.path)
+  const seen = table.ids.get(object)
+  if (seen !== undefined && seen.pointer !== pointer) {
+    return { [table.markers.ref]: seen.id }
+  }
+
+  const id = seen === undefined && table.shared.has(object) ? String(table.ids.size + 1) : undefined
+  if (id !== undefined) {
+    table.ids.set(object, { id, pointer })
+  }
+
+  const transformed = transform()
+  for (const key of [table.markers.id, table.markers.ref]) {
+    if (typeName(transformed) === 'object' && Object.prototype.hasOwnProperty.call(transformed, key)) {
+      throw new TransformationError(
+        { code: 'reserved_key', direction: 'transform', params: { key } },
+        s.with('references:transform', key),
+        object
+      )
+    }
+  }
+
+  return id === undefined ? transformed : { [table.markers.id]: id, ...transformed }
+}
+
+/**
+ * in reference mode, resolve a `$ref`, or restore a value carrying an `$id` into an object registered beforehand,
+ * so that references to it resolve to the very same object, even from within it
+ */
+function restoreShared<R extends object>(json: any, s: Stack, restore: (json: any) => R): R {
+  const table = s.context.references
+  if (table === undefined || typeName(json) !== 'object') {
+    return restore(json)
+  }
+
+  const { id, ref } = table.markers
+  if (typeof json[ref] === 'string') {
+    const found = table.objects.get(json[ref])
+    if (found === undefined) {
+      throw new TransformationError(
+        { code: 'unresolved_reference', direction: 'restore', params: { ref: json[ref] } },
+        s.with('references:restore', ref),
+        json
+      )
+    }
+
+    return found as R
+  }
+
+  if (typeof json[id] !== 'string') {
+    return restore(json)
   }
+
+  const { [id]: marker, ...rest } = json
+  const target = {}
+  table.objects.set(marker, target)
+  const restored = restore(rest)
+  return Object.assign(Object.setPrototypeOf(target, Object.getPrototypeOf(restored)), restored)
+}
+
+/**
+ * Extend an existing object schema with another.
+ * Each side treats the keys declared by the other as known, so unknown key policies apply to the combination.
+ */
+export function extendObject<BS extends Shape, BN extends NamingStrategy, WS extends Shape, WN extends NamingStrategy>(
+  baseSchema: ObjectBound<BS, BN>,
+  withSchema: ObjectBound<WS, WN>
+): ObjectBound<Simplify<Omit<ResolvedShape<BS, BN>, keyof WS> & ResolvedShape<WS, WN>>>
+export function extendObject<BS extends {}, BD, WS extends {}, WD>(
+  baseSchema: Bound<BS, BD>,
+  withSchema: Bound<WS, WD>
+): Bound<Simplify<BS&WS>, Simplify<BD&WD>>
+export function extendObject<BS extends {}, BD, WS extends {}, WD>(
+  baseSchema: Bound<BS, BD>,
+  withSchema: Bound<WS, WD>
+): Bound<Simplify<BS&WS>, Simplify<BD&WD>> {
+  return concealing({
+    transform: (object: BS&WS, s: Stack = stack()) => transformShared(object, s, () => {
+      const issues = collector()
+      const base = issues.attempt(() => baseSchema.transform(without(object, declaredKeys(withSchema, 'transform')), s))
+      const extension = issues.attempt(() => withSchema.transform(without(object, declaredKeys(baseSchema, 'transform')), s))
+      issues.throwIfAny(s)
+
+      return { ...base, ...extension }
+    }) as Simplify<BD&WD>,
+    restore: (json: BD&WD, s: Stack = stack()) => restoreShared(json, s, (json: BD&WD) => {
+      const issues = collector()
+      const base = issues.attempt(() => baseSchema.restore(without(json, declaredKeys(withSchema, 'restore')), s))
+      const extension = issues.attempt(() => withSchema.restore(without(json, declaredKeys(baseSchema, 'restore')), s))
+      issues.throwIfAny(s)
+
+      return combine(base, extension)
+    }) as Simplify<BS&WS>,
+    node: { kind: 'extend', base: baseSchema, extension: withSchema }
+  })
 }
 
-/** expresses a literal value of any type */
+/**
+ * Expresses a value matching two schemas at once, e.g. a string that is both an email address and a company one.
+ * Both sides transform and restore the value; when they produce objects, those are merged shallowly,
+ * with each side treating the keys declared by the other as known. Other results must be equal.
+ */
+export function intersection<TA, LA, TB, LB>(left: Bound<TA, LA>, right: Bound<TB, LB>): Bound<TA & TB, LA & LB> {
+  const apply = (direction: Direction, value: any, s: Stack) => {
+    const label = `intersection:${direction}`
+    const side = (bound: Bound<any, any>, other: Bound<any, any>) => {
+      const visible = without(value, declaredKeys(other, direction))
+      return direction === 'transform' ? bound.transform(visible, s.with(label)) : bound.restore(visible, s.with(label))
+    }
+
+    const issues = collector()
+    const a = issues.attempt(() => side(left, right))
+    const b = issues.attempt(() => side(right, left))
+    issues.throwIfAny(s)
+
+    if (typeName(a) === 'object' && typeName(b) === 'object') {
+      return direction === 'transform' ? { ...a, ...b } : combine(a, b)
+    }
+
+    if (!deepEqual(a, b)) {
+      throw new TransformationError({ code: 'invalid_intersection', direction }, s.with(label), value)
+    }
+
+    return a
+  }
+
+  return concealing({
+    transform: (object: TA & TB, s: Stack = stack()) => apply('transform', object, s),
+    restore: (json: LA & LB, s: Stack = stack()) => apply('restore', json, s),
+    node: { kind: 'intersection', left, right }
+  })
+}
+
+/** compare two literals by value, so that objects and arrays re-parsed from JSON still match */
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true
+  }
+
+  if (typeName(a) !== typeName(b) || typeof a !== 'object' || a === null) {
+    return false
+  }
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]))
+  }
+
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length
+    && keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+}
+
+/** expresses a literal value of any type. Objects and arrays are compared by value */
 export function literal<T extends Literal>(value: T): Bound<T, T> {
-  return stackwrap(validated<T>((v: any) => v === value) as unknown as Bound<T, T>, 'literal')
+  return {
+    ...stackwrap(
+      checked<T>(
+        (v: any) => deepEqual(v, value),
+        v => ({ code: 'literal_mismatch', expected: JSON.stringify(value), received: JSON.stringify(v) })
+      ),
+      'literal'
+    ),
+    node: { kind: 'literal', value }
+  }
+}
+
+/** expresses one of a set of allowed literals, labelled as `label` in the stack */
+function allowed<T extends Literal>(values: readonly T[], label: string): Bound<T, T> {
+  return {
+    ...stackwrap(
+      checked<T>(
+        (v: any) => values.some(value => deepEqual(v, value)),
+        v => ({
+          code: 'invalid_enum_value',
+          expected: values.map(value => JSON.stringify(value)).join(', '),
+          received: JSON.stringify(v)
+        })
+      ),
+      label
+    ),
+    node: { kind: 'oneOf', values: [...values] }
+  }
+}
+
+/**
+ * Expresses one of a set of allowed literals, e.g. `oneOf(['draft', 'published'])`.
+ * Objects and arrays are compared by value, as with `literal`.
+ * @param values allowed values
+ */
+export function oneOf<const T extends readonly Literal[]>(values: T): Bound<T[number], T[number]> {
+  return allowed(values, 'oneOf')
+}
+
+/**
+ * Expresses a member of a TypeScript enum, numeric or string. Values are kept as they are on the wire.
+ * @param values the enum object itself, e.g. `enumOf(Color)`
+ */
+export function enumOf<E extends Record<string, string | number>>(values: E): Bound<E[keyof E], E[keyof E]> {
+  // numeric enums map their values back to their names too, e.g. `{ Red: 0, 0: 'Red' }`
+  const members = Object.keys(values)
+    .filter(key => typeof values[values[key] as keyof E] !== 'number')
+    .map(key => values[key as keyof E])
+
+  return allowed(members, 'enumOf')
 }
 
 /** expresses a string value */
-export const string = () => stackwrap(
-  validated<string>((v: any) => typeof v === 'string', v => `expected 'string', received '${typeof v}'`),
-  'string'
-) as Bound<string, string>
+export const string = () => primitive<string>('string')
 
 /** expresses a numeric value */
-export const number = () => stackwrap(
-  validated<number>((v: any) => typeof v === 'number', v => `expected 'number', received '${typeof v}'`),
-  'number'
-) as Bound<number, number>
+export const number = () => primitive<number>('number', 'number', {
+  parse: str => /^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/.test(str) ? Number(str) : undefined,
+  format: 'a numeric string'
+})
 
 /** expresses a boolean value */
-export const boolean = () => stackwrap(
-  validated<boolean>((v: any) => typeof v === 'boolean', v => `expected 'boolean', received '${typeof v}'`),
-  'boolean'
-) as Bound<boolean, boolean>
+export const boolean = () => primitive<boolean>('boolean', 'boolean', {
+  parse: str => ({ true: true, false: false, 1: true, 0: false, yes: true, no: false } as Record<string, boolean>)[str.trim().toLowerCase()],
+  format: `one of 'true', 'false', '1', '0', 'yes' or 'no'`
+})
 
 /** expresses a null value (called nil, because null is a reserved keyword) */
-export const nil = () => stackwrap(
-  validated<null>((v: any) => v === null, v => `expected 'null', received '${typeof v}'`),
-  'nil'
-) as Bound<null, null>
+export const nil = () => primitive<null>('null', 'nil', {
+  parse: str => str === 'null' ? null : undefined,
+  format: `'null'`
+})
 
 /**
  * Express an object with unknown key values and associated values
@@ -121,107 +532,450 @@ export const nil = () => stackwrap(
 export function record<
   K extends string,
   V,
-  R extends Record<K, V>
+  SK extends string = K,
+  SV = Literal
 >(
-  keySchema: Bound<K>,
-  valueSchema: Bound<V>
-): Bound<R, Literal> {
+  keySchema: Bound<K, SK>,
+  valueSchema: Bound<V, SV>
+): Bound<Record<K, V>, Record<SK, SV>> {
   return {
-    transform: (object: R, s: Stack = stack()) => {
-      return Object.fromEntries(
-        Object.entries(object).map(
+    transform: (object: Record<K, V>, s: Stack = stack()) => {
+      if (typeName(object) !== 'object') {
+        throw new TransformationError(
+          { code: 'invalid_type', direction: 'transform', expected: 'object', received: typeName(object) },
+          s.with('record:transform'),
+          object
+        )
+      }
+
+      return transformShared(object, s, () => {
+        const issues = collector()
+        const entries = Object.entries(object).map(
           ([key, value]) => [
-            keySchema.transform(key as K, s.with(`record:transform['key of ${key}']`)),
-            valueSchema.transform(value as V, s.with(`record:transform[value of '${key}']`))
+            issues.attempt(() => keySchema.transform(key as K, descend(s, () => `record:transform['key of ${key}']`, key))),
+            issues.attempt(() => valueSchema.transform(value as V, descend(s, () => `record:transform[value of '${key}']`, key)))
           ]
         )
-      ) as PrimitiveRecord
+        issues.throwIfAny(s)
+
+        return Object.fromEntries(entries)
+      }) as Record<SK, SV>
     },
-    restore: (json: Literal, s: Stack = stack()) => {
-      return Object.fromEntries(
-        Object.entries(json as PrimitiveRecord).map(
+    restore: (json: Record<SK, SV>, s: Stack = stack()) => {
+      if (typeName(json) !== 'object') {
+        throw new TransformationError(
+          { code: 'invalid_type', direction: 'restore', expected: 'object', received: typeName(json) },
+          s.with('record:restore'),
+          json
+        )
+      }
+
+      return restoreShared(json, s, (json: Record<string, SV>) => {
+        const issues = collector()
+        const entries = Object.entries(json).map(
           ([key, value]) => [
-            keySchema.restore(key, s.with(`record:restore['key of ${key}']`)),
-            valueSchema.restore(value, s.with(`record:restore[value of '${key}']`))
+            issues.attempt(() => keySchema.restore(key as SK, descend(s, () => `record:restore['key of ${key}']`, key))),
+            issues.attempt(() => valueSchema.restore(value, descend(s, () => `record:restore[value of '${key}']`, key)))
           ]
         )
-      ) as R
-    }
+        issues.throwIfAny(s)
+
+        return Object.fromEntries(entries) as Record<K, V>
+      })
+    },
+    node: { kind: 'record', key: keySchema, value: valueSchema }
   }
 }
 
 /**
  * Expresses an array of items all typed-alike.
  * For arrays containing multiple types, you'll want to use `union` within this.
+ * In coercion mode, a string is restored as its comma-separated items.
  * @param itemSchema expression of array element
  */
-export function array<T>(itemSchema: Bound<T>): Bound<Array<T>, Literal> {
+export function array<T, S = Literal>(itemSchema: Bound<T, S>): Bound<Array<T>, Array<S>> {
   return {
     transform: (array: T[], s: Stack = stack()) => {
-      return array.map((e, i) => itemSchema.transform(e, s.with(`array:transform[${i}]`)))
+      if (!Array.isArray(array)) {
+        throw new TransformationError(
+          { code: 'invalid_type', direction: 'transform', expected: 'array', received: typeName(array) },
+          s.with('array:transform'),
+          array
+        )
+      }
+
+      return copying(array, s, 'array:transform', () => {
+        const issues = collector()
+        const items = array.map((e, i) => issues.attempt(() => itemSchema.transform(e, descend(s, () => `array:transform[${i}]`, i))))
+        issues.throwIfAny(s)
+
+        return items as S[]
+      })
     },
-    restore: (array: Literal, s: Stack = stack()) => {
+    restore: (array: Array<S>, s: Stack = stack()) => {
+      if (s.context.coerce && typeof array === 'string') {
+        array = (array === '' ? [] : (array as string).split(',')) as S[]
+      }
+
       if (!Array.isArray(array)) {
-        throw new TransformationError('Not an array', s.with('array:restore'))
+        throw new TransformationError(
+          { code: 'invalid_type', direction: 'restore', expected: 'array', received: typeName(array) },
+          s.with('array:restore'),
+          array
+        )
       }
 
-      return array.map((e, i) => itemSchema.restore(e, s.with(`array:restore[${i}]`)))
+      const issues = collector()
+      const items = array.map((e, i) => issues.attempt(() => itemSchema.restore(e, descend(s, () => `array:restore[${i}]`, i))))
+      issues.throwIfAny(s)
+
+      return items as T[]
+    },
+    node: { kind: 'array', item: itemSchema }
+  }
+}
+
+/** the runtime types of a list of schemas, position by position */
+type InferItems<I extends Bound<any, any>[]> = { [K in keyof I]: Infer<I[K]> }
+
+/** the serialized types of a list of schemas, position by position */
+type SerializedItems<I extends Bound<any, any>[]> = { [K in keyof I]: Serialized<I[K]> }
+
+/**
+ * Expresses a fixed-length array whose items each have their own type, e.g. `tuple([string(), number()])`.
+ * @param items expression of each item, by position
+ * @param rest expression of any items following the fixed ones. When omitted, no more items are allowed
+ */
+export function tuple<I extends Bound<any, any>[]>(items: [...I]): Bound<InferItems<I>, SerializedItems<I>>
+export function tuple<I extends Bound<any, any>[], R extends Bound<any, any>>(
+  items: [...I],
+  rest: R
+): Bound<[...InferItems<I>, ...Infer<R>[]], [...SerializedItems<I>, ...Serialized<R>[]]>
+export function tuple(items: Bound<any, any>[], rest?: Bound<any, any>): Bound<any[], any[]> {
+  const apply = (direction: Direction, value: any, s: Stack) => {
+    const label = `tuple:${direction}`
+    if (!Array.isArray(value)) {
+      throw new TransformationError(
+        { code: 'invalid_type', direction, expected: 'array', received: typeName(value) },
+        s.with(label),
+        value
+      )
     }
+
+    if (value.length < items.length || (rest === undefined && value.length > items.length)) {
+      const details: IssueDetails = value.length < items.length
+        ? { code: 'too_small', received: String(value.length), params: { minimum: items.length, type: 'array' } }
+        : { code: 'too_big', received: String(value.length), params: { maximum: items.length, type: 'array' } }
+      throw new TransformationError({ ...details, direction }, s.with(label), value)
+    }
+
+    return copying(value, s, label, () => {
+      const issues = collector()
+      const result = value.map((item, i) => {
+        const bound = items[i] ?? rest!
+        const at = descend(s, () => `${label}[${i}]`, i)
+        return issues.attempt(() => direction === 'transform' ? bound.transform(item, at) : bound.restore(item, at))
+      })
+      issues.throwIfAny(s)
+
+      return result
+    })
   }
+
+  return concealing({
+    transform: (object: any[], s: Stack = stack()) => apply('transform', object, s),
+    restore: (json: any[], s: Stack = stack()) => apply('restore', json, s),
+    node: { kind: 'tuple', items, rest }
+  })
+}
+
+/**
+ * the unknown key policy of objects that specify none, when their context doesn't either.
+ * To change it for a whole transformation, set `unknownKeys` in its context, e.g. with `scoped`
+ */
+export const DefaultUnknownKeyPolicy: UnknownKeyPolicy = 'strip'
+
+/** an unknown key policy that transforms and restores keys outside of the schema with `schema` */
+export function catchall(schema: Bound<any, any>): UnknownKeyPolicy {
+  return { catchall: schema }
+}
+
+/** options for `object` */
+export interface ObjectOptions<N extends NamingStrategy = NamingStrategy> {
+  /**
+   * what to do with keys that aren't part of the schema, in both directions:
+   * - `strip` drops them
+   * - `strict` raises an error listing them
+   * - `passthrough` keeps them unchanged
+   * - `catchall(schema)` keeps them, transformed and validated by that schema
+   *
+   * defaults to the policy of the transformation context, then to `DefaultUnknownKeyPolicy`
+   */
+  unknownKeys?: UnknownKeyPolicy
+  /**
+   * how runtime (camelCase) keys are named on the wire: `camel` (unchanged), `snake`, `kebab`, `pascal`
+   * or a custom pair of conversions. Fields wrapped in `field` keep their own wire key.
+   */
+  naming?: N
 }
 
 /**
  * Expresses an object with a known structure.
  * If you're looking for an object with unknown keys, use `record`.
  * @param schemaObject Object prototype expressing the structure and expressed types therewithin
+ * @param options see `ObjectOptions`
  */
+export function object<S extends Shape>(
+  schemaObject: S,
+  options: ObjectOptions<CustomNaming> & { naming: CustomNaming }
+): Bound<InferShape<S>, { [key: string]: Serialized<S[keyof S]> }>
+export function object<S extends Shape, N extends NamingStrategy = 'camel'>(
+  schemaObject: S,
+  options?: ObjectOptions<N>
+): ObjectBound<S, N>
 export function object<
   O extends { [key: string]: any }
 >(
-  schemaObject: { [K in keyof O]: Bound<O[K], Literal> }
-): Bound<O, Literal> {
-  return {
+  schemaObject: { [K in keyof O]: Bound<O[K], Literal> },
+  options?: ObjectOptions
+): Bound<O, Literal>
+export function object<
+  O extends { [key: string]: any }
+>(
+  schemaObject: { [K in keyof O]: Bound<O[K], any> },
+  { unknownKeys, naming }: ObjectOptions = {}
+): Bound<O, any> {
+  const keys = wireKeys(schemaObject, naming)
+  const wire = new Set(Object.values(keys))
+
+  /** handle keys of `value` that aren't part of the schema, according to the unknown key policy */
+  const unknown = (direction: Direction, value: any, s: Stack, issues: IssueCollector): Array<[string, any]> => {
+    const policy = unknownKeys ?? s.context.unknownKeys ?? DefaultUnknownKeyPolicy
+    if (policy === 'strip') {
+      return []
+    }
+
+    const extra = Object.keys(value).filter(key => direction === 'transform'
+      ? !Object.prototype.hasOwnProperty.call(schemaObject, key)
+      : !wire.has(key)
+    )
+
+    if (policy === 'passthrough') {
+      return extra.map(key => [key, value[key]])
+    }
+
+    if (policy === 'strict') {
+      if (extra.length > 0) {
+        issues.add(new TransformationError(
+          { code: 'unrecognized_keys', direction, params: { keys: extra } },
+          s.with(`object:${direction}`),
+          value
+        ))
+      }
+
+      return []
+    }
+
+    return extra.map(key => {
+      const at = descend(s, () => `object:${direction}['${key}' (catchall)]`, key)
+      return [key, issues.attempt(() => direction === 'transform'
+        ? policy.catchall.transform(value[key], at)
+        : policy.catchall.restore(value[key], at)
+      )]
+    })
+  }
+
+  /** describe a field in the stack, mentioning its wire key when it differs from the runtime one */
+  const describe = (direction: Direction) => Object.fromEntries(Object.keys(keys).map(key => [key, keys[key] === key
+    ? `object:${direction}['${key}']`
+    : `object:${direction}['${key}' <-> '${keys[key]}']`
+  ]))
+  const labels = { transform: describe('transform'), restore: describe('restore') }
+  const label = (direction: Direction, key: string) => labels[direction][key]
+
+  return concealing({
     transform: (object: { [K in keyof O]: Unwrap<O[K]> }, s: Stack = stack()) => {
-      return Object.fromEntries(
-        Object.entries(schemaObject).map(
-          ([key, value]) => [key, value.transform((object as any)[key], s.with(`object:transform['${key}']`))]
+      if (typeName(object) !== 'object') {
+        throw new TransformationError(
+          { code: 'invalid_type', direction: 'transform', expected: 'object', received: typeName(object) },
+          s.with('object:transform'),
+          object
         )
-      )
+      }
+
+      return transformShared(object, s, () => {
+        const issues = collector()
+        const entries = Object.entries(schemaObject).map(
+          ([key, value]) => [keys[key], issues.attempt(() => value.transform((object as any)[key], s.with(label('transform', key), key)))]
+        )
+        const extra = unknown('transform', object, s, issues)
+        issues.throwIfAny(s)
+
+        return Object.fromEntries(entries.concat(extra))
+      })
     },
     restore: (json: Literal, s: Stack = stack()) => {
-      if (typeof json !== 'object' || Array.isArray(json) || json === null) {
-        const t = Array.isArray(json) ? 'array' : typeof json
-        throw new TransformationError(`Not an object. Expected 'object', got '${t}'`, s.with('object:transform'))
+      if (typeName(json) !== 'object') {
+        throw new TransformationError(
+          { code: 'invalid_type', direction: 'restore', expected: 'object', received: typeName(json) },
+          s.with('object:restore'),
+          json
+        )
       }
 
-      for (const key of Object.keys(schemaObject)) {
-        if (!(key in json) && (schemaObject as any)[key]?.attributes?.optional !== true) {
-          throw new TransformationError(`Missing required object key '${key}'`, s.with('object:transform'))
-        }
-      }
+      return restoreShared(json as PrimitiveRecord, s, (json: PrimitiveRecord) => {
+        const issues = collector()
+        const entries = Object.entries(schemaObject).map(([key, value]) => {
+          const wireKey = keys[key]
+          if (!(wireKey in json) && value.attributes?.optional !== true) {
+            issues.add(new TransformationError(
+              { code: 'missing_key', direction: 'restore', params: { key: wireKey } },
+              s.with(label('restore', key), wireKey)
+            ))
+            return [key, undefined]
+          }
 
-      return Object.fromEntries(
-        Object.entries(schemaObject).map(
-          ([key, value]) => [key, value.restore((json as any)[key], s.with(`object:restore['${key}']`))]
-        )
-      ) as { [K in keyof O]: Unwrap<O[K]> }
-    }
+          return [key, issues.attempt(() => value.restore(json[wireKey], s.with(label('restore', key), wireKey)))]
+        })
+        const extra = unknown('restore', json, s, issues)
+        issues.throwIfAny(s)
+
+        return Object.fromEntries(entries.concat(extra)) as { [K in keyof O]: Unwrap<O[K]> }
+      })
+    },
+    node: { kind: 'object', shape: schemaObject, unknownKeys, naming }
+  })
+}
+
+/**
+ * Name a field of an object differently on the wire, overriding the object's naming strategy.
+ * @param wireKey key used in the serialized object
+ * @param schema expression of the field's value
+ */
+export function field<W extends string, B extends Bound<any, any>>(wireKey: W, schema: B): B & { attributes: { wireKey: W } } {
+  return {
+    ...schema,
+    attributes: { ...schema.attributes, wireKey }
+  }
+}
+
+/**
+ * Expresses a string renamed by a naming strategy: runtime (camelCase) strings become wire names
+ * on transformation and are converted back on restoration. Useful as a `record` key schema.
+ * @param naming naming strategy of the wire side
+ */
+export function renamed(naming: NamingStrategy): Bound<string, string> {
+  const base = string()
+  return {
+    transform: (object: string, s: Stack = stack()) => toWireKey(base.transform(object, s), naming),
+    restore: (json: string, s: Stack = stack()) => fromWireKey(base.restore(json, s), naming),
+    node: { kind: 'string' }
   }
 }
 
-type UnionDiscriminator<T, R> = (v: T) => Bound<R, any> | false
+/** A constructor whose instances can be bound with `classOf` */
+export type Constructor<C> = abstract new (...args: any[]) => C
+
+/** options for `classOf` */
+export interface ClassOptions<C> {
+  /** build an instance from restored fields. By default, the prototype is applied and fields are assigned */
+  factory?: (fields: Record<string, any>) => C
+}
+
+/**
+ * Expresses an instance of a class. Only the declared fields are transformed, so methods,
+ * getters and private state are left out; restoration produces a real instance again.
+ * Subclasses can be expressed by extending a base class schema using `extendObject`.
+ * @param ctor class to restore instances of
+ * @param schema declared fields, as an object prototype or an existing object schema
+ * @param options see `ClassOptions`
+ */
+export function classOf<C extends object, L>(
+  ctor: Constructor<C>,
+  schema: Bound<any, L>,
+  options?: ClassOptions<C>
+): Bound<C, L>
+export function classOf<C extends object, S extends { [K in keyof C]?: Bound<C[K], any> }>(
+  ctor: Constructor<C>,
+  schema: S,
+  options?: ClassOptions<C>
+): Bound<C, S extends Shape ? SerializedShape<S> : Literal>
+export function classOf<C extends object>(
+  ctor: Constructor<C>,
+  schema: { [K in keyof C]?: Bound<C[K], any> } | Bound<any, Literal>,
+  { factory }: ClassOptions<C> = {}
+): Bound<C, Literal> {
+  const bound = schema as Bound<any, Literal>
+  const fields: Bound<any, Literal> = typeof bound.transform === 'function' && typeof bound.restore === 'function'
+    ? bound
+    : object(schema as { [key: string]: Bound<any, Literal> })
+
+  return concealing({
+    transform: (object: C, s: Stack = stack()) => {
+      if (!(object instanceof ctor)) {
+        const received = typeName(object) === 'object' ? object.constructor?.name ?? 'object' : typeName(object)
+        throw new TransformationError(
+          { code: 'invalid_type', direction: 'transform', expected: ctor.name, received },
+          s.with(`class:transform`),
+          object
+        )
+      }
+
+      return transformShared(object, s, () => fields.transform(object, s.with(`class:transform[${ctor.name}]`)))
+    },
+    restore: (json: Literal, s: Stack = stack()) => restoreShared(json, s, (json: Literal) => {
+      const restored = fields.restore(json, s.with(`class:restore[${ctor.name}]`))
+      if (factory !== undefined) {
+        return factory(restored)
+      }
+
+      return Object.assign(Object.create(ctor.prototype), restored)
+    }),
+    node: { kind: 'class', ctor, schema: fields }
+  })
+}
+
+type UnionDiscriminator<T, R, S = any> = ((v: T) => Bound<R, S> | false) & { schema?: Bound<R, S> }
+
+/** the schema a discriminator may select */
+type DiscriminatedSchema<D> = D extends (v: any) => infer R ? Exclude<R, false> : never
+
+/**
+ * Build a union discriminator that selects `schema` whenever `predicate` holds.
+ * Unlike a bare discriminator function, the schema stays visible to `reflect`.
+ */
+export function when<T = any, R = any, S = any>(predicate: (v: T) => boolean, schema: Bound<R, S>): UnionDiscriminator<T, R, S> {
+  return Object.assign((v: T) => predicate(v) && schema, { schema })
+}
 
 /**
  * Expresses a discriminated union.
+ * Unless given explicitly, the runtime type is inferred from the expressions the discriminators return.
  * @param discriminators validation functions that either return the selected type expression or false
  */
+export function union<
+  TDiscriminators extends readonly ((v: any) => Bound<any, any> | false)[]
+>(
+  ...discriminators: TDiscriminators
+): Bound<Infer<DiscriminatedSchema<TDiscriminators[number]>>, Serialized<DiscriminatedSchema<TDiscriminators[number]>>>
+export function union<
+  TUnion,
+  TDiscriminators extends readonly UnionDiscriminator<TUnion, any>[] = readonly UnionDiscriminator<TUnion, any>[]
+>(
+  ...discriminators: TDiscriminators
+): Bound<TUnion, Literal>
 export function union<
   TUnion,
   TDiscriminators extends readonly UnionDiscriminator<TUnion, any>[] = readonly UnionDiscriminator<TUnion, any>[]
 >(
   ...discriminators: TDiscriminators
 ): Bound<TUnion, Literal> {
-  return {
+  const labels = {
+    transform: discriminators.map((_, i) => `union:transform[${i}]`),
+    restore: discriminators.map((_, i) => `union:restore[${i}]`)
+  }
+
+  return concealing({
     transform: (object: TUnion, s: Stack = stack()) => {
       for (let i = 0; i < discriminators.length; i++) {
         const discriminator = discriminators[i]
@@ -230,10 +984,10 @@ export function union<
           continue
         }
 
-        return discriminated.transform(object as any, s.with(`union:transform[${i}]`))
+        return discriminated.transform(object as any, s.with(labels.transform[i]))
       }
 
-      throw new TransformationError('No matching union discriminator', s.with('union:transform'))
+      throw new TransformationError({ code: 'no_union_match', direction: 'transform' }, s.with('union:transform'), object)
     },
     restore: (json: Literal, s: Stack = stack()) => {
       for (let i = 0; i < discriminators.length; i++) {
@@ -243,35 +997,421 @@ export function union<
           continue
         }
 
-        return discriminated.restore(json, s.with(`union:restore[${i}]`))
+        return discriminated.restore(json, s.with(labels.restore[i]))
       }
 
-      throw new TransformationError('No matching union discriminator', s.with('union:restore'))
+      throw new TransformationError({ code: 'no_union_match', direction: 'restore' }, s.with('union:restore'), json)
+    },
+    node: { kind: 'union', branches: discriminators.map(d => d.schema) }
+  })
+}
+
+/** options for `discriminatedUnion` */
+export interface DiscriminatedUnionOptions {
+  /**
+   * when the tag is missing or unknown, try every branch in order instead of failing outright.
+   * If none of them fit, the reasons each one failed are reported.
+   */
+  fallback?: boolean
+}
+
+/** the union of the runtime types of a map of schemas */
+type BranchOf<M extends Record<string, Bound<any, any>>> = { [T in keyof M]: Infer<M[T]> }[keyof M]
+
+/** the union of the serialized types of a map of schemas */
+type SerializedBranchOf<M extends Record<string, Bound<any, any>>> = { [T in keyof M]: Serialized<M[T]> }[keyof M]
+
+/**
+ * Expresses a union whose branch is selected by the value of a tag field,
+ * read from the runtime object when transforming and from the serialized one when restoring,
+ * where each branch is told apart by its tag field as it serializes it, e.g. under a renamed key.
+ * @param key name of the tag field
+ * @param branches schema of each branch, keyed by its tag value
+ * @param options see `DiscriminatedUnionOptions`
+ */
+export function discriminatedUnion<K extends string, M extends Record<string, Bound<any, any>>>(
+  key: K,
+  branches: M,
+  { fallback = false }: DiscriminatedUnionOptions = {}
+): Bound<BranchOf<M>, SerializedBranchOf<M>> {
+  const allowed = Object.keys(branches)
+
+  /**
+   * where each branch holds its tag on the wire, and how the tag is serialized there,
+   * as renamed keys and transformed tags can't be read as `key` and the branch name
+   */
+  let serialized: Array<{ branch: string, wireKey: string, tag: any }> | undefined
+  const serializedTags = () => serialized ??= allowed.map(branch => {
+    const field = declaredField(branches[branch], key)
+    if (field === undefined) {
+      return { branch, wireKey: key, tag: branch }
+    }
+
+    const node = field.schema.node
+    const encoded = safeTransform(field.schema, node?.kind === 'literal' ? node.value : branch)
+    return { branch, wireKey: field.wireKey, tag: encoded.success ? encoded.data : branch }
+  })
+
+  /** the branch a value is tagged with, if any, and the tag as found on the value */
+  const tagOf = (direction: Direction, value: any): { branch?: string, tag: any } => {
+    if (typeName(value) !== 'object') {
+      return { tag: undefined }
+    }
+
+    if (direction === 'transform') {
+      const tag = value[key]
+      const known = (typeof tag === 'string' || typeof tag === 'number') && Object.prototype.hasOwnProperty.call(branches, tag)
+      return { branch: known ? String(tag) : undefined, tag }
+    }
+
+    const tags = serializedTags()
+    const holds = (wireKey: string) => Object.prototype.hasOwnProperty.call(value, wireKey)
+    const found = tags.find(({ wireKey, tag }) => holds(wireKey) && deepEqual(value[wireKey], tag))
+    const wireKey = found?.wireKey ?? tags.find(({ wireKey }) => holds(wireKey))?.wireKey ?? key
+    return { branch: found?.branch, tag: value[wireKey] }
+  }
+
+  const apply = (direction: Direction, branch: Bound<any, any>, value: any, s: Stack) =>
+    direction === 'transform' ? branch.transform(value, s) : branch.restore(value, s)
+
+  const select = (direction: Direction, value: any, s: Stack) => {
+    const label = `discriminatedUnion:${direction}`
+    const { branch, tag } = tagOf(direction, value)
+    if (branch !== undefined) {
+      return apply(direction, branches[branch], value, s.with(`${label}[${branch}]`))
+    }
+
+    if (!fallback) {
+      throw new TransformationError(
+        {
+          code: 'invalid_discriminator',
+          direction,
+          expected: allowed.map(t => JSON.stringify(t)).join(' | '),
+          received: tag === undefined ? 'undefined' : JSON.stringify(tag),
+          params: { key, allowed }
+        },
+        s.with(label, key),
+        value
+      )
+    }
+
+    const failures: Array<{ branch: string, issues: TransformationError[] }> = []
+    for (const branch of allowed) {
+      try {
+        return apply(direction, branches[branch], value, s.with(`${label}[${branch}]`))
+      } catch (e) {
+        if (!(e instanceof TransformationError)) {
+          throw e
+        }
+
+        failures.push({ branch, issues: issuesOf(e) })
+      }
     }
+
+    throw new TransformationError({ code: 'no_union_match', direction, params: { key, branches: failures } }, s.with(label), value)
   }
+
+  return concealing({
+    transform: (object: BranchOf<M>, s: Stack = stack()) => select('transform', object, s),
+    restore: (json: SerializedBranchOf<M>, s: Stack = stack()) => select('restore', json, s),
+    node: { kind: 'discriminatedUnion', key, branches }
+  })
 }
 
 /**
  * Express a serialized string that matches a specific schema.
  * Unpacked into an object of matching type during transformation,
  * and re-packed into a serialized string during restoration.
+ * Binary configs such as `MessagePackSerializationConfig` produce a `Uint8Array` instead,
+ * and can hold other binary documents nested within.
  * @param schema expression of serialized type
+ * @param config serialization config. Defaults to the one of the transformation context,
+ * then to `DefaultSerializationConfig`, looked up on every call
  */
-export function document<T, S = string>(
-  schema: Bound<T>,
-  { serializer, deserializer  }: SerializationConfig<Literal, S>
-    = (DefaultSerializationConfig as unknown as SerializationConfig<Literal, S>)
-): Bound<T, S> {
-  return {
+export function document<T>(schema: Bound<T>): Bound<T, string>
+export function document<T, S = string>(schema: Bound<T, any>, config: SerializationConfig<Literal, S>): Bound<T, S>
+export function document<T, S = string>(schema: Bound<T, any>, config?: SerializationConfig<Literal, S>): Bound<T, S> {
+  const configOf = (s: Stack): SerializationConfig<Literal, S> =>
+    config ?? (s.context.serialization ?? DefaultSerializationConfig) as SerializationConfig<Literal, S>
+
+  /**
+   * re-raise an issue found by the serialization config where the document sits, rather than at the root.
+   * Other errors, e.g. the `SyntaxError` of `JSON.parse`, are reported as an issue about the whole document
+   */
+  const relocate = (e: unknown, direction: Direction, s: Stack, offender: any): never => {
+    if (!(e instanceof TransformationError)) {
+      const cause = e instanceof Error ? e.message : String(e)
+      const details: IssueDetails = direction === 'restore'
+        ? { code: 'invalid_format', direction, expected: configOf(s).mediaType ?? 'a document', received: cause }
+        : { code: 'custom', direction, message: `Could not serialize document: ${cause}` }
+      throw new TransformationError(details, s, offender)
+    }
+
+    throw new TransformationError(e.details, e.path.reduce((at: Stack, key) => at.with(`[${key}]`, key), s), e.offender ?? offender)
+  }
+
+  return concealing({
     transform: (object: T, s: Stack = stack()) => {
       const literal = schema.transform(object, s.with('document:transform'))
-      const transformed = serializer(literal)
-      return transformed
+      try {
+        return configOf(s).serializer(literal)
+      } catch (e) {
+        return relocate(e, 'transform', s.with('document:transform'), literal)
+      }
     },
     restore: (str: S, s: Stack = stack()) => {
-      const literal = deserializer(str)
+      let literal: Literal
+      try {
+        literal = configOf(s).deserializer(str)
+      } catch (e) {
+        return relocate(e, 'restore', s.with('document:restore'), str)
+      }
+
       const restored = schema.restore(literal, s.with('document:restore'))
       return restored
+    },
+    node: { kind: 'document', schema, config }
+  })
+}
+
+/**
+ * Transform and restore a part of a schema with some of the transformation context overridden,
+ * e.g. a nested `document` in another format, or a strict object within lenient ones.
+ * Reflection sees through it: the node and attributes are those of the wrapped schema.
+ * @param schema expression of the part
+ * @param context entries of the context to override within the part
+ */
+export function scoped<B extends Bound<any, any>>(schema: B, context: TransformationContext): B {
+  return {
+    ...schema,
+    transform: (object: any, s: Stack = stack()) => schema.transform(object, s.withContext(context)),
+    restore: (json: any, s: Stack = stack()) => schema.restore(json, s.withContext(context))
+  }
+}
+
+/**
+ * Restore a part of a schema in coercion mode, whatever the transformation context says:
+ * numbers, booleans and nulls are also read from their string representations,
+ * and arrays from comma-separated strings, as found in query strings, CLI arguments or environment variables.
+ * Transformation is unaffected and always produces typed values.
+ */
+export function coerce<B extends Bound<any, any>>(schema: B): B {
+  return scoped(schema, { coerce: true })
+}
+
+/** the objects reachable more than once from a value, either because they're shared or part of a cycle */
+function sharedObjects(root: unknown): Set<object> {
+  const seen = new Set<object>()
+  const shared = new Set<object>()
+  const visit = (value: unknown) => {
+    if (typeof value !== 'object' || value === null) {
+      return
+    }
+
+    if (seen.has(value)) {
+      shared.add(value)
+      return
+    }
+
+    seen.add(value)
+    const items = value instanceof Map
+      ? [...value.keys(), ...value.values()]
+      : value instanceof Set ? [...value] : Object.values(value)
+    items.forEach(visit)
+  }
+
+  visit(root)
+  return shared
+}
+
+/** options for `references` */
+export interface ReferenceOptions {
+  /** key marking a shared object with its id, `$id` by default */
+  id?: string
+  /** key marking a reference to a shared object, `$ref` by default */
+  ref?: string
+}
+
+/**
+ * Transform and restore a schema in reference mode, preserving the identity of objects and class instances:
+ * those reached more than once, because they're shared or part of a cycle, are emitted in full once along with an `$id`,
+ * then as `{ $ref: id }` wherever they appear again. Restoration resolves references back to the very same objects.
+ * Records are referenced the same way. Arrays, maps and sets are copied as usual, and raise an `unsupported_cycle` issue
+ * when found within themselves, as their copy would never end. Restored instances built by a class `factory` get their
+ * prototype and own properties copied onto the object references point to.
+ * Objects with keys of their own named like the markers raise a `reserved_key` issue: pick other markers for those.
+ * @param schema expression of the graph
+ * @param options see `ReferenceOptions`
+ */
+export function references<T, L>(schema: Bound<T, L>, { id = '$id', ref = '$ref' }: ReferenceOptions = {}): Bound<T, Literal> {
+  const table = (shared: Set<object>): ReferenceTable => ({
+    shared,
+    ids: new Map(),
+    objects: new Map(),
+    copying: new Set(),
+    markers: { id, ref }
+  })
+
+  return {
+    ...schema,
+    transform: (object: T, s: Stack = stack()) =>
+      schema.transform(object, s.withContext({ references: table(sharedObjects(object)) })) as Literal,
+    restore: (json: Literal, s: Stack = stack()) => schema.restore(json as L, s.withContext({ references: table(new Set()) }))
+  }
+}
+
+/**
+ * Speed up a schema that's transformed and restored many times, such as a `record` of entities on a hot path.
+ * Values go through the schema without building the stack of messages and path of each node along the way;
+ * should an issue come up, the value goes through again the usual way, so errors are exactly the same as without it.
+ * Bounds with side effects, e.g. codecs counting calls, run twice for values that fail.
+ * In reference mode, where positions matter, the schema runs the usual way.
+ * @param schema expression of the values
+ */
+export function compile<B extends Bound<any, any>>(schema: B): B {
+  const fast = <V, R>(run: (value: V, s: Stack) => R) => (value: V, s: Stack = stack()): R => {
+    if (s.context.references !== undefined) {
+      return run(value, s)
+    }
+
+    try {
+      return run(value, quietStack(s.context))
+    } catch (e) {
+      if (!(e instanceof TransformationError)) {
+        throw e
+      }
+
+      return run(value, s)
     }
   }
-}
\ No newline at end of file
+
+  return {
+    ...schema,
+    transform: fast((object: any, s: Stack) => schema.transform(object, s)),
+    restore: fast((json: any, s: Stack) => schema.restore(json, s))
+  }
+}
+
+/** the versions of a map of schemas, in ascending order. Versions are expected to be small positive integers */
+type Versions<M> = Ascending<keyof M>
+
+/** the numbers below 100 within `K`, in ascending order */
+type Ascending<K, C extends unknown[] = [], V extends number[] = []> = number extends K
+  ? number[]
+  : C['length'] extends 100 ? V : Ascending<K, [...C, unknown], C['length'] extends K ? [...V, C['length']] : V>
+
+/** the latest version of a map of schemas */
+type LatestVersion<M> = Versions<M> extends [...number[], infer L extends number] ? L : number
+
+/** the schema of a given version */
+type VersionSchema<M, V> = M[V & keyof M]
+
+/** a migration step to each version but the first, from the runtime value of the version before it */
+export type Migrations<M, V = Versions<M>> = V extends [infer A, infer B extends number, ...infer R]
+  ? { [K in B]: (previous: Infer<VersionSchema<M, A>>) => Infer<VersionSchema<M, B>> } & Migrations<M, [B, ...R]>
+  : {}
+
+/** options for `versioned` */
+export interface VersionedOptions<K extends string> {
+  /** name of the version field written alongside the document's own fields, `version` by default */
+  key?: K
+  /** version to assume for documents without a version field, e.g. those persisted before versioning was introduced */
+  unversioned?: number
+}
+
+/**
+ * Expresses an object whose shape changed over time. Transformation always writes the latest version,
+ * while restoration reads the version field, restores with the schema of that version and runs
+ * each migration step up to the latest one, checking that each step produces a value of the version it migrates to.
+ * @param schemas object schema of each version, keyed by version number
+ * @param migrations step to each version from the one before it, keyed by the version it produces
+ * @param options see `VersionedOptions`
+ */
+export function versioned<M extends Record<number, Bound<any, any>>, K extends string = 'version'>(
+  schemas: M,
+  migrations: Migrations<M>,
+  options?: VersionedOptions<K>
+): Bound<
+  Infer<VersionSchema<M, LatestVersion<M>>>,
+  Simplify<Serialized<VersionSchema<M, LatestVersion<M>>> & { [P in K]: LatestVersion<M> }>
+>
+export function versioned<K extends string = 'version'>(
+  schemas: Record<number, Bound<any, any>>,
+  migrations: Record<number, (previous: any) => any>,
+  { key = 'version' as K, unversioned }: VersionedOptions<K> = {}
+): Bound<any, any> {
+  const versions = Object.keys(schemas).map(Number).sort((a, b) => a - b)
+  const latest = versions[versions.length - 1]
+  for (const version of versions.slice(1)) {
+    if (typeof migrations[version] !== 'function') {
+      throw new Error(`Missing migration to version ${version}`)
+    }
+  }
+
+  return concealing({
+    transform: (object: any, s: Stack = stack()) => {
+      const transformed = schemas[latest].transform(object, s.with(`versioned:transform[v${latest}]`))
+      if (typeName(transformed) !== 'object') {
+        throw new TransformationError(
+          { code: 'invalid_type', direction: 'transform', expected: 'object', received: typeName(transformed) },
+          s.with('versioned:transform'),
+          object
+        )
+      }
+
+      return { [key]: latest, ...transformed }
+    },
+    restore: (json: any, s: Stack = stack()) => {
+      if (typeName(json) !== 'object') {
+        throw new TransformationError(
+          { code: 'invalid_type', direction: 'restore', expected: 'object', received: typeName(json) },
+          s.with('versioned:restore'),
+          json
+        )
+      }
+
+      const version = json[key] === undefined ? unversioned : json[key]
+      if (!versions.includes(version)) {
+        throw new TransformationError(
+          {
+            code: 'invalid_discriminator',
+            direction: 'restore',
+            expected: versions.join(' | '),
+            received: version === undefined ? 'undefined' : JSON.stringify(version),
+            params: { key, allowed: versions }
+          },
+          s.with('versioned:restore', key),
+          json
+        )
+      }
+
+      let value = schemas[version].restore(without(json, [key]), s.with(`versioned:restore[v${version}]`))
+      for (const to of versions.filter(v => v > version)) {
+        const from = versions[versions.indexOf(to) - 1]
+        const failed = (cause: string, offender: any) => new TransformationError(
+          { code: 'migration_failed', direction: 'restore', params: { from, to, cause } },
+          s.with(`versioned:restore[v${from} -> v${to}]`),
+          offender
+        )
+
+        let migrated: any
+        try {
+          migrated = migrations[to](value)
+        } catch (e) {
+          throw failed(e instanceof Error ? e.message : String(e), value)
+        }
+
+        // the step must produce a value of the version it migrates to, which the following steps rely on
+        const checked = safeTransform(schemas[to], migrated, s.context)
+        if (!checked.success) {
+          throw failed(`produced an invalid value (${checked.issues.map(e => `${e.pointer || '/'} ${e.message}`).join(', ')})`, migrated)
+        }
+
+        value = migrated
+      }
+
+      return value
+    },
+    node: { kind: 'versioned', key, schemas, migrations }
+  })
+}
@@ -0,0 +1,488 @@
+import { email, integer, max, maxLength, min, minLength, multipleOf, pattern, unique, uuid } from "./constraints"
+import { safeRestore, safeTransform } from "./errors"
+import {
+  any,
+  array,
+  boolean,
+  catchall,
+  DefaultUnknownKeyPolicy,
+  document,
+  extendObject,
+  intersection,
+  lazy,
+  literal,
+  nil,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  tuple,
+  union,
+  validated,
+  when
+} from "./index"
+import { wireKeys } from "./naming"
+import { reflect, visit, withMeta } from "./reflection"
+import { DefaultSerializationConfig, JsonSerializationConfig } from "./serialization"
+import { Bound, Literal, SchemaNode, SerializationConfig } from "./types"
+import { unwrap } from "./util"
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+
+/** A JSON Schema document or subschema. Only the keywords this library understands are typed */
+export type JsonSchema = boolean | JsonSchemaObject
+
+export interface JsonSchemaObject {
+  $schema?: string
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+  type?: JsonSchemaType | JsonSchemaType[]
+  const?: Literal
+  enum?: Literal[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: JsonSchema
+  propertyNames?: JsonSchema
+  prefixItems?: JsonSchema[]
+  items?: JsonSchema
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  contentMediaType?: string
+  contentSchema?: JsonSchema
+  title?: string
+  description?: string
+  [keyword: string]: any
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array'
+
+/** serialization configs `fromJsonSchema` uses for `contentMediaType`, keyed by media type */
+export type MediaTypeConfigs = Record<string, SerializationConfig<Literal, any>>
+
+function isOptional(bound: Bound<any, any>): boolean {
+  return bound.attributes?.optional === true
+}
+
+/** schemas of the `lazy` Bounds met so far, which are described once under `$defs` and referred to */
+interface Definitions {
+  names: Map<Bound<any, any>, string>
+  schemas: Record<string, JsonSchema>
+}
+
+/** describe the serialized side of a Bound, without the `$schema` header */
+function describe(bound: Bound<any, any>, defs: Definitions): JsonSchemaObject {
+  const recurse = (b: Bound<any, any>) => describe(b, defs)
+  const schema = visit<JsonSchemaObject>(bound, {
+    string: () => ({ type: 'string' }),
+    number: () => ({ type: 'number' }),
+    boolean: () => ({ type: 'boolean' }),
+    null: () => ({ type: 'null' }),
+    literal: node => ({ const: node.value }),
+    oneOf: node => ({ enum: node.values }),
+    optional: node => recurse(node.inner),
+    refined: node => constrain(recurse(node.inner), node),
+    sensitive: node => recurse(node.inner),
+    nullable: node => ({ anyOf: [recurse(node.inner), { type: 'null' }] }),
+    withDefault: node => {
+      const transformed = typeof node.value === 'function' ? undefined : safeTransform(node.inner, node.value)
+      return transformed?.success ? { ...recurse(node.inner), default: transformed.data } : recurse(node.inner)
+    },
+    object: node => {
+      const keys = wireKeys(node.shape, node.naming)
+      const required = Object.keys(node.shape).filter(key => !isOptional(node.shape[key])).map(key => keys[key])
+      const policy = node.unknownKeys ?? DefaultUnknownKeyPolicy
+      const additionalProperties = policy === 'strict'
+        ? false
+        : typeof policy === 'object' ? recurse(policy.catchall) : undefined
+
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(node.shape).map(([key, value]) => [keys[key], recurse(value)])),
+        ...(required.length > 0 ? { required } : {}),
+        ...(additionalProperties !== undefined ? { additionalProperties } : {})
+      }
+    },
+    extend: node => merge(recurse(node.base), recurse(node.extension)),
+    intersection: node => merge(recurse(node.left), recurse(node.right)),
+    class: node => recurse(node.schema),
+    array: node => ({ type: 'array', items: recurse(node.item) }),
+    tuple: node => ({
+      type: 'array',
+      prefixItems: node.items.map(recurse),
+      items: node.rest === undefined ? false : recurse(node.rest),
+      minItems: node.items.length,
+      ...(node.rest === undefined ? { maxItems: node.items.length } : {})
+    }),
+    record: node => {
+      const { type, ...keySchema } = recurse(node.key)
+      return {
+        type: 'object',
+        ...(Object.keys(keySchema).length > 0 ? { propertyNames: keySchema } : {}),
+        additionalProperties: recurse(node.value)
+      }
+    },
+    union: node => node.branches.every(b => b !== undefined)
+      ? { anyOf: node.branches.map(b => recurse(b!)) }
+      : {},
+    discriminatedUnion: node => ({ anyOf: Object.values(node.branches).map(recurse) }),
+    versioned: node => ({
+      anyOf: Object.entries(node.schemas).map(([version, schema]) => merge(
+        recurse(schema),
+        { type: 'object', properties: { [node.key]: { const: Number(version) } }, required: [node.key] }
+      ))
+    }),
+    document: node => {
+      const config = node.config ?? DefaultSerializationConfig
+      const mediaType = config.mediaType ?? 'application/json'
+      if (isBinary(config)) {
+        throw new Error(`Binary documents can't be described as JSON Schema, got one of media type '${mediaType}'`)
+      }
+
+      return { type: 'string', contentMediaType: mediaType, contentSchema: recurse(node.schema) }
+    },
+    date: node => node.format === 'iso' ? { type: 'string', format: 'date-time' } : { type: 'number' },
+    bigint: () => ({ type: 'string', pattern: '^-?\\d+$' }),
+    map: node => node.format === 'record'
+      ? { type: 'object', additionalProperties: recurse(node.value) }
+      : {
+        type: 'array',
+        items: { type: 'array', prefixItems: [recurse(node.key), recurse(node.value)], minItems: 2, maxItems: 2 }
+      },
+    set: node => ({ type: 'array', items: recurse(node.item), uniqueItems: true }),
+    url: () => ({ type: 'string', format: 'uri' }),
+    pipe: node => recurse(node.steps[node.steps.length - 1]),
+    regexp: () => ({ type: 'string', pattern: '^/.*/[a-z]*$' }),
+    lazy: (node, lazy) => {
+      let name = defs.names.get(lazy)
+      if (name === undefined) {
+        const title: string = node.meta?.title ?? 'lazy'
+        name = title in defs.schemas ? `${title}${defs.names.size + 1}` : title
+        defs.names.set(lazy, name)
+        // reserve the name while describing the schema, which may refer to itself
+        defs.schemas[name] = {}
+        defs.schemas[name] = recurse(node.schema())
+      }
+
+      return { $ref: `#/$defs/${encodeURIComponent(name)}` }
+    },
+    bytes: node => node.encoding === 'base64'
+      ? { type: 'string', contentEncoding: 'base64' }
+      : { type: 'string', pattern: '^(?:[0-9a-fA-F]{2})*$' },
+    default: () => ({})
+  })
+
+  return { ...schema, ...annotations(reflect(bound)) }
+}
+
+/** whether a serialization config produces bytes rather than text, which no JSON value can hold */
+function isBinary(config: SerializationConfig<Literal, any>): boolean {
+  try {
+    return config.serializer(null) instanceof Uint8Array
+  } catch {
+    return false
+  }
+}
+
+/** the JSON Schema keywords matching a built-in constraint, if any, given the schema being constrained */
+function constraintKeywords(schema: JsonSchemaObject, node: Extract<SchemaNode, { kind: 'refined' }>): JsonSchemaObject {
+  const items = schema.type === 'array'
+  switch (node.check) {
+    case 'minLength':
+      return { [items ? 'minItems' : 'minLength']: node.params.minimum }
+    case 'maxLength':
+      return { [items ? 'maxItems' : 'maxLength']: node.params.maximum }
+    case 'pattern':
+      return { pattern: (node.params.pattern as RegExp).source }
+    case 'email':
+    case 'uuid':
+      return { format: node.check }
+    case 'integer':
+      return schema.type === 'number' ? { type: 'integer' } : {}
+    case 'min':
+      return { minimum: node.params.minimum }
+    case 'max':
+      return { maximum: node.params.maximum }
+    case 'multipleOf':
+      return { multipleOf: node.params.step }
+    case 'unique':
+      return node.params.by === undefined ? { uniqueItems: true } : {}
+    default:
+      return {}
+  }
+}
+
+/**
+ * add the keywords of a constraint to a schema, falling back to `allOf` when the schema already uses one of them.
+ * The keywords then keep the type of the schema, so that they describe the same values on their own
+ */
+function constrain(schema: JsonSchemaObject, node: Extract<SchemaNode, { kind: 'refined' }>): JsonSchemaObject {
+  const keywords = constraintKeywords(schema, node)
+  const clashes = Object.keys(keywords).some(k => k !== 'type' && schema[k] !== undefined)
+  if (!clashes) {
+    return { ...schema, ...keywords }
+  }
+
+  return { allOf: [schema, schema.type === undefined ? keywords : { type: schema.type, ...keywords }] }
+}
+
+/** carry over the standard annotation keywords found in a node's metadata */
+function annotations(node: SchemaNode): JsonSchemaObject {
+  const keywords = ['title', 'description', 'examples', 'default', 'deprecated', 'readOnly', 'writeOnly', '$comment']
+  return Object.fromEntries(
+    Object.entries(node.meta ?? {}).filter(([key]) => keywords.includes(key))
+  )
+}
+
+/** combine two object schemas, falling back to `allOf` when they can't be merged */
+function merge(a: JsonSchemaObject, b: JsonSchemaObject): JsonSchemaObject {
+  const mergeable = (o: JsonSchemaObject) => o.type === 'object' && (o.additionalProperties ?? false) === false
+  if (!mergeable(a) || !mergeable(b)) {
+    return { allOf: [a, b] }
+  }
+
+  const required = [...(a.required ?? []), ...(b.required ?? [])]
+  const strict = a.additionalProperties === false || b.additionalProperties === false
+  return {
+    type: 'object',
+    properties: { ...a.properties, ...b.properties },
+    ...(required.length > 0 ? { required: [...new Set(required)] } : {}),
+    ...(strict ? { additionalProperties: false } : {})
+  }
+}
+
+/**
+ * Describe the serialized (target) side of a schema as a JSON Schema (draft 2020-12).
+ * Bounds that can't be described, such as `validated` or hand-written ones, accept any value.
+ * `lazy` Bounds are described under `$defs`, named after their `title` metadata, and referred to with `$ref`.
+ * Binary documents, e.g. those of `MessagePackSerializationConfig`, are serialized as a `Uint8Array` rather than JSON
+ * and can't be described: an error is thrown.
+ */
+export function toJsonSchema(bound: Bound<any, any>): JsonSchemaObject {
+  const defs: Definitions = { names: new Map(), schemas: {} }
+  const schema = describe(bound, defs)
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...schema,
+    ...(Object.keys(defs.schemas).length > 0 ? { $defs: defs.schemas } : {})
+  }
+}
+
+/** follow a local `$ref` such as `#/$defs/thing` within the root schema */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Only local JSON Schema references are supported, got '${ref}'`)
+  }
+
+  return ref
+    .slice(1)
+    .split('/')
+    .slice(1)
+    .map(p => decodeURIComponent(p).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((schema: any, key) => {
+      if (schema === undefined || schema[key] === undefined) {
+        throw new Error(`Unresolvable JSON Schema reference '${ref}'`)
+      }
+
+      return schema[key]
+    }, root)
+}
+
+/**
+ * a union whose branches are picked by whichever one accepts the value once serialized.
+ * Both sides of the Bounds built from JSON Schema are alike, so that picks the branch of runtime values too
+ */
+function anyOf(branches: Bound<any, any>[]): Bound<any, any> {
+  return union(...branches.map(b => when((v: any) => safeRestore(b, v).success, b)))
+}
+
+/** applies a built-in constraint to a Bound, given the value of its keyword */
+type Constraint = (bound: Bound<any, any>, value: any) => Bound<any, any>
+
+const numberConstraints: Record<string, Constraint> = { minimum: min, maximum: max, multipleOf }
+
+/** built-in constraints matching validation keywords, by the type they apply to: the reverse of `constraintKeywords` */
+const keywordConstraints: Partial<Record<JsonSchemaType, Record<string, Constraint>>> = {
+  string: {
+    minLength,
+    maxLength,
+    pattern: (bound, source: string) => pattern(bound, new RegExp(source)),
+    format: (bound, format: string) => format === 'email' ? email(bound) : format === 'uuid' ? uuid(bound) : bound
+  },
+  number: numberConstraints,
+  integer: numberConstraints,
+  array: {
+    minItems: minLength,
+    maxItems: maxLength,
+    uniqueItems: (bound, uniqueItems: boolean) => uniqueItems ? unique(bound) : bound
+  }
+}
+
+/** constrain a Bound built for one type of a schema with the validation keywords of that type found in the schema */
+function constrained(bound: Bound<any, any>, schema: JsonSchemaObject, type: JsonSchemaType): Bound<any, any> {
+  return Object.entries(keywordConstraints[type] ?? {}).reduce(
+    (constrained, [keyword, constraint]) => schema[keyword] === undefined ? constrained : constraint(constrained, schema[keyword]),
+    bound
+  )
+}
+
+/**
+ * whether a schema only holds validation keywords, which apply to values of some type without requiring it,
+ * such as the constraints `toJsonSchema` moves to `allOf` when they clash with those of the schema
+ */
+function keywordsOnly(schema: JsonSchema): schema is JsonSchemaObject {
+  const structural = ['type', '$ref', 'const', 'enum', 'allOf', 'anyOf', 'oneOf', 'properties', 'items', 'prefixItems', 'contentSchema']
+  return typeof schema === 'object' && structural.every(keyword => schema[keyword] === undefined)
+}
+
+/** whether a Bound describes objects by their fields, so that `allOf` can extend them rather than intersect them */
+function isObject(bound: Bound<any, any>): boolean {
+  return ['object', 'extend', 'class'].includes(reflect(unwrap(bound)).kind)
+}
+
+/** the Bounds built for each `$ref` so far, left undefined while they are being built */
+type BuiltRefs = Map<string, Bound<any, any> | undefined>
+
+function build(schema: JsonSchema, root: JsonSchema, configs: MediaTypeConfigs, refs: BuiltRefs): Bound<any, any> {
+  if (schema === true) {
+    return any()
+  }
+
+  if (schema === false) {
+    return validated(() => false, () => 'No value is allowed here')
+  }
+
+  const recurse = (s: JsonSchema) => build(s, root, configs, refs)
+  const bound = buildObject(schema, recurse, root, configs, refs)
+  const meta = annotations({ kind: 'custom', meta: schema })
+
+  return Object.keys(meta).length > 0 ? withMeta(bound, meta) : bound
+}
+
+function buildObject(
+  schema: JsonSchemaObject,
+  recurse: (s: JsonSchema) => Bound<any, any>,
+  root: JsonSchema,
+  configs: MediaTypeConfigs,
+  refs: BuiltRefs
+): Bound<any, any> {
+  const ref = schema.$ref
+  if (ref !== undefined) {
+    if (refs.has(ref)) {
+      return refs.get(ref) ?? lazy(() => refs.get(ref)!)
+    }
+
+    refs.set(ref, undefined)
+    const bound = build(resolveRef(root, ref), root, configs, refs)
+    refs.set(ref, bound)
+    return bound
+  }
+
+  if (schema.const !== undefined) {
+    return literal(schema.const)
+  }
+
+  if (schema.enum !== undefined) {
+    return oneOf(schema.enum)
+  }
+
+  if (schema.allOf !== undefined) {
+    const typed = schema.allOf.find(s => typeof s === 'object' && s.type !== undefined) as JsonSchemaObject | undefined
+    return schema.allOf
+      .map(s => recurse(typed !== undefined && keywordsOnly(s) ? { type: typed.type, ...s } : s))
+      .reduce((base, extension) => isObject(base) && isObject(extension) ? extendObject(base, extension) : intersection(base, extension))
+  }
+
+  const branches = schema.anyOf ?? schema.oneOf
+  if (branches !== undefined) {
+    const bounds = branches.map(recurse)
+    return bounds.length === 1 ? bounds[0] : anyOf(bounds)
+  }
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter(t => t !== 'null')
+    if (types.length === 0) {
+      return nil()
+    }
+
+    const bounds = types.map(type => buildObject({ ...schema, type }, recurse, root, configs, refs))
+    const bound = bounds.length === 1 ? bounds[0] : anyOf(bounds)
+    return schema.type.includes('null') ? nullable(bound) : bound
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (schema.contentSchema !== undefined) {
+        const mediaType = schema.contentMediaType ?? 'application/json'
+        const config = configs[mediaType]
+        if (config === undefined) {
+          throw new Error(`No serialization config for content media type '${mediaType}'`)
+        }
+
+        return document(recurse(schema.contentSchema), config)
+      }
+
+      return constrained(string(), schema, 'string')
+    case 'number':
+      return constrained(number(), schema, 'number')
+    case 'integer':
+      return constrained(integer(number()), schema, 'integer')
+    case 'boolean':
+      return boolean()
+    case 'null':
+      return nil()
+    case 'array':
+      if (schema.prefixItems !== undefined) {
+        const items = schema.prefixItems.map(recurse)
+        return schema.items === false ? tuple(items) : tuple(items, schema.items === undefined ? any() : recurse(schema.items))
+      }
+
+      return constrained(array(schema.items === undefined ? any() : recurse(schema.items)), schema, 'array')
+    case 'object': {
+      if (schema.properties === undefined) {
+        const additional = schema.additionalProperties
+        return record(
+          schema.propertyNames === undefined ? string() : recurse(schema.propertyNames),
+          additional === undefined ? any() : recurse(additional)
+        )
+      }
+
+      const required = schema.required ?? []
+      const additional = schema.additionalProperties
+      return object(
+        Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => {
+            const bound = recurse(value)
+            return [key, required.includes(key) ? bound : optional(bound)]
+          })
+        ),
+        {
+          unknownKeys: additional === false
+            ? 'strict'
+            : additional === undefined || additional === true ? 'passthrough' : catchall(recurse(additional))
+        }
+      )
+    }
+    default:
+      return any()
+  }
+}
+
+/**
+ * Build a working Bound from a JSON Schema. Runtime and serialized sides are identical,
+ * except for strings with a `contentSchema`, which become nested `document`s, and recursive `$ref`s, which become `lazy`.
+ * Validation keywords matching a built-in constraint (`minLength`, `maxLength`, `pattern`, the `email` and `uuid` formats,
+ * `minimum`, `maximum`, `multipleOf`, `minItems`, `maxItems` and `uniqueItems`) become that constraint,
+ * the way `toJsonSchema` describes them. Other keywords this library doesn't model (e.g. `exclusiveMinimum`) are ignored.
+ * @param schema JSON Schema to build from
+ * @param configs serialization configs to use for `contentMediaType`, by media type
+ */
+export function fromJsonSchema(
+  schema: JsonSchema,
+  configs: MediaTypeConfigs = { 'application/json': JsonSerializationConfig }
+): Bound<any, any> {
+  return build(schema, schema, configs, new Map())
+}
@@ -0,0 +1,52 @@
+import { NamingStrategy, Shape } from "./types"
+
+/**
+ * convert a camelCase key to a delimited one, one delimiter per capital letter.
+ * Acronyms are split letter by letter (`userID` becomes `user_i_d`), which keeps the conversion exactly reversible.
+ */
+function toDelimited(key: string, delimiter: string): string {
+  return key.replace(/[A-Z]/g, c => delimiter + c.toLowerCase())
+}
+
+function fromDelimited(key: string, delimiter: string): string {
+  return key.replace(new RegExp(`\\${delimiter}([a-z])`, 'g'), (_, c: string) => c.toUpperCase())
+}
+
+/** convert a runtime (camelCase) key to its wire form using a naming strategy */
+export function toWireKey(key: string, naming: NamingStrategy = 'camel'): string {
+  switch (naming) {
+    case 'camel':
+      return key
+    case 'snake':
+      return toDelimited(key, '_')
+    case 'kebab':
+      return toDelimited(key, '-')
+    case 'pascal':
+      return key.charAt(0).toUpperCase() + key.slice(1)
+    default:
+      return naming.toWire(key)
+  }
+}
+
+/** convert a wire key back to its runtime (camelCase) form using a naming strategy */
+export function fromWireKey(key: string, naming: NamingStrategy = 'camel'): string {
+  switch (naming) {
+    case 'camel':
+      return key
+    case 'snake':
+      return fromDelimited(key, '_')
+    case 'kebab':
+      return fromDelimited(key, '-')
+    case 'pascal':
+      return key.charAt(0).toLowerCase() + key.slice(1)
+    default:
+      return naming.fromWire(key)
+  }
+}
+
+/** the wire key of each field of an object shape, honoring `field` aliases */
+export function wireKeys(shape: Shape, naming?: NamingStrategy): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(shape).map(([key, bound]) => [key, bound.attributes?.wireKey ?? toWireKey(key, naming)])
+  )
+}
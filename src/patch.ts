@@ -0,0 +1,328 @@
+import { stack, toPointer, TransformationError, typeName } from "./errors"
+import { reflect } from "./reflection"
+import { DefaultSerializationConfig } from "./serialization"
+import { Bound, Literal, PathSegment, SerializationConfig, TransformationContext } from "./types"
+import { childOf, define, unwrap } from "./util"
+
+/**
+ * A JSON Patch (RFC 6902) operation. `patch` is an extension applying a nested patch
+ * to the payload of a serialized `document`, rather than replacing the whole string.
+ */
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test', path: string, value: Literal }
+  | { op: 'remove', path: string }
+  | { op: 'move' | 'copy', from: string, path: string }
+  | { op: 'patch', path: string, patch: JsonPatch }
+
+export type JsonPatch = JsonPatchOperation[]
+
+/** the payload schema and serialization config of a `document` Bound, or undefined for other Bounds */
+function documentOf(
+  bound: Bound<any, any> | undefined,
+  context: TransformationContext
+): { schema: Bound<any, any>, config: SerializationConfig<Literal, any> } | undefined {
+  const node = bound === undefined ? undefined : reflect(unwrap(bound))
+  if (node?.kind !== 'document') {
+    return undefined
+  }
+
+  return { schema: node.schema, config: node.config ?? context.serialization ?? DefaultSerializationConfig }
+}
+
+function isPlainObject(v: any): v is Record<string, Literal> {
+  return typeName(v) === 'object' && [Object.prototype, null].includes(Object.getPrototypeOf(v))
+}
+
+/** keys holding a value, as serialized objects may carry `undefined` for missing optional fields */
+function presentKeys(v: Record<string, Literal>): string[] {
+  return Object.keys(v).filter(key => v[key] !== undefined)
+}
+
+/** compare serialized values, including the binary payloads of binary documents */
+function equal(a: any, b: any): boolean {
+  if (a === b) {
+    return true
+  }
+
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    return a.length === b.length && a.every((byte, i) => byte === b[i])
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => equal(v, b[i]))
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = presentKeys(a)
+    return keys.length === presentKeys(b).length && keys.every(key => equal(a[key], b[key]))
+  }
+
+  return false
+}
+
+function clone<T>(v: T): T {
+  if (Array.isArray(v)) {
+    return v.map(clone) as T
+  }
+
+  return isPlainObject(v) ? Object.fromEntries(Object.entries(v).map(([k, e]) => [k, clone(e)])) as T : v
+}
+
+function diffValues(
+  bound: Bound<any, any> | undefined,
+  a: any,
+  b: any,
+  path: PathSegment[],
+  context: TransformationContext,
+  patch: JsonPatch
+): void {
+  if (equal(a, b)) {
+    return
+  }
+
+  const pointer = toPointer(path)
+  const document = documentOf(bound, context)
+  if (document !== undefined && a !== undefined && b !== undefined) {
+    let before: Literal
+    let after: Literal
+    try {
+      before = document.config.deserializer(a)
+      after = document.config.deserializer(b)
+    } catch {
+      patch.push({ op: 'replace', path: pointer, value: b })
+      return
+    }
+
+    const nested: JsonPatch = []
+    diffValues(document.schema, before, after, [], context, nested)
+    patch.push({ op: 'patch', path: pointer, patch: nested })
+    return
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const before = presentKeys(a)
+    const after = presentKeys(b)
+    for (const key of before.filter(key => !after.includes(key))) {
+      patch.push({ op: 'remove', path: toPointer(path.concat(key)) })
+    }
+
+    for (const key of after) {
+      if (before.includes(key)) {
+        diffValues(childOf(bound, key, b), a[key], b[key], path.concat(key), context, patch)
+      } else {
+        patch.push({ op: 'add', path: toPointer(path.concat(key)), value: b[key] })
+      }
+    }
+
+    return
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const common = Math.min(a.length, b.length)
+    for (let i = 0; i < common; i++) {
+      diffValues(childOf(bound, String(i), b), a[i], b[i], path.concat(i), context, patch)
+    }
+
+    for (let i = a.length - 1; i >= b.length; i--) {
+      patch.push({ op: 'remove', path: toPointer(path.concat(i)) })
+    }
+
+    for (let i = a.length; i < b.length; i++) {
+      patch.push({ op: 'add', path: toPointer(path.concat(i)), value: b[i] })
+    }
+
+    return
+  }
+
+  patch.push({ op: 'replace', path: pointer, value: b })
+}
+
+/**
+ * Describe the changes between two runtime values as JSON Patch operations on their serialized form.
+ * Changes within nested `document`s are described by a `patch` operation holding a patch of the document's payload.
+ * @param schema expression of both values
+ * @param before value the patch applies to
+ * @param after value the patch produces
+ * @param context transformation context, e.g. the serialization config of documents
+ */
+export function diff<T>(schema: Bound<T, any>, before: T, after: T, context: TransformationContext = {}): JsonPatch {
+  const s = stack().withContext(context)
+  const patch: JsonPatch = []
+  diffValues(schema, schema.transform(before, s), schema.transform(after, s), [], context, patch)
+  return patch
+}
+
+/** raise an issue about an operation that can't be applied at `path` */
+function invalid(op: JsonPatchOperation, path: PathSegment[], reason: string): never {
+  throw new TransformationError({ code: 'invalid_patch', params: { op: op.op, reason } }, stack([], path))
+}
+
+/** keys that would reach the prototype of an object rather than one of its own values */
+const UnsafeKeys = ['__proto__', 'constructor', 'prototype']
+
+/** parse a JSON Pointer (RFC 6901) into its segments, refusing those that would reach into prototypes */
+function fromPointer(op: JsonPatchOperation, pointer: string): string[] {
+  if (typeof pointer !== 'string') {
+    return invalid(op, [], `expected a JSON Pointer, received ${typeName(pointer)}`)
+  }
+
+  if (pointer === '') {
+    return []
+  }
+
+  if (!pointer.startsWith('/')) {
+    return invalid(op, [], `invalid JSON Pointer '${pointer}'`)
+  }
+
+  const path = pointer.slice(1).split('/').map(p => p.replace(/~1/g, '/').replace(/~0/g, '~'))
+  const unsafe = path.findIndex(key => UnsafeKeys.includes(key))
+  if (unsafe !== -1) {
+    invalid(op, path.slice(0, unsafe + 1), `unsafe key '${path[unsafe]}'`)
+  }
+
+  return path
+}
+
+/** applies the operations of a patch to a serialized value, keeping track of where each one applies */
+function patcher(schema: Bound<any, any>, context: TransformationContext) {
+  /** the container holding the last segment of a path, and the Bound describing it */
+  const locate = (root: any, op: JsonPatchOperation, path: string[]) => {
+    let container = root
+    let bound: Bound<any, any> | undefined = schema
+    for (const [i, key] of path.slice(0, -1).entries()) {
+      bound = childOf(bound, key, container)
+      const index = Array.isArray(container) ? Number(key) : key
+      container = Object.prototype.hasOwnProperty.call(container, index) ? container[index] : undefined
+      if (typeName(container) !== 'object' && typeName(container) !== 'array') {
+        invalid(op, path.slice(0, i + 1), 'no such container')
+      }
+    }
+
+    const key = path[path.length - 1]
+    return { container, key, bound: childOf(bound, key, container) }
+  }
+
+  const read = (root: any, op: JsonPatchOperation, path: string[]): any => {
+    if (path.length === 0) {
+      return root
+    }
+
+    const { container, key } = locate(root, op, path)
+    const index = Array.isArray(container) ? Number(key) : key
+    if (!Object.prototype.hasOwnProperty.call(container, index) || container[index] === undefined) {
+      invalid(op, path, 'no such value')
+    }
+
+    return container[index]
+  }
+
+  const add = (root: any, op: JsonPatchOperation, path: string[], value: any): any => {
+    if (path.length === 0) {
+      return value
+    }
+
+    const { container, key } = locate(root, op, path)
+    if (!Array.isArray(container)) {
+      define(container, key, value)
+      return root
+    }
+
+    const index = key === '-' ? container.length : Number(key)
+    if (!/^(0|[1-9]\d*|-)$/.test(key) || index > container.length) {
+      invalid(op, path, 'index out of bounds')
+    }
+
+    container.splice(index, 0, value)
+    return root
+  }
+
+  const remove = (root: any, op: JsonPatchOperation, path: string[]): any => {
+    read(root, op, path)
+    if (path.length === 0) {
+      return undefined
+    }
+
+    const { container, key } = locate(root, op, path)
+    if (Array.isArray(container)) {
+      container.splice(Number(key), 1)
+    } else {
+      delete container[key]
+    }
+
+    return root
+  }
+
+  const apply = (root: any, op: JsonPatchOperation): any => {
+    const path = fromPointer(op, op.path)
+    switch (op.op) {
+      case 'add':
+        return add(root, op, path, clone(op.value))
+      case 'remove':
+        return remove(root, op, path)
+      case 'replace':
+        return add(remove(root, op, path), op, path, clone(op.value))
+      case 'move': {
+        const value = read(root, op, fromPointer(op, op.from))
+        return add(remove(root, op, fromPointer(op, op.from)), op, path, value)
+      }
+      case 'copy':
+        return add(root, op, path, clone(read(root, op, fromPointer(op, op.from))))
+      case 'test':
+        if (!equal(read(root, op, path), op.value)) {
+          invalid(op, path, 'value differs')
+        }
+
+        return root
+      case 'patch': {
+        const bound = path.length === 0 ? schema : locate(root, op, path).bound
+        const document = documentOf(bound, context)
+        if (document === undefined) {
+          return invalid(op, path, 'not a document')
+        }
+
+        if (!Array.isArray(op.patch)) {
+          return invalid(op, path, 'no nested patch')
+        }
+
+        const nested = patcher(document.schema, context)
+        const current = read(root, op, path)
+        let parsed: Literal
+        try {
+          parsed = document.config.deserializer(current)
+        } catch {
+          return invalid(op, path, 'document does not parse')
+        }
+
+        try {
+          const payload = op.patch.reduce(nested, clone(parsed))
+          const serialized = document.config.serializer(payload)
+          return path.length === 0 ? serialized : add(remove(root, op, path), op, path, serialized)
+        } catch (e) {
+          if (!(e instanceof TransformationError)) {
+            throw e
+          }
+
+          throw new TransformationError(e.details, stack([], (path as PathSegment[]).concat(e.path)), e.offender)
+        }
+      }
+      default:
+        return invalid(op, [], `unknown operation '${(op as { op: unknown }).op}'`)
+    }
+  }
+
+  return apply
+}
+
+/**
+ * Apply JSON Patch operations, such as those produced by `diff`, to a runtime value.
+ * The patch applies to the serialized form of the value, which is then restored, and thus validated, through the schema.
+ * @param schema expression of the value
+ * @param value value to patch, which is left untouched
+ * @param patch operations to apply, in order
+ * @param context transformation context, e.g. the serialization config of documents
+ */
+export function applyPatch<T>(schema: Bound<T, any>, value: T, patch: JsonPatch, context: TransformationContext = {}): T {
+  const s = stack().withContext(context)
+  const patched = patch.reduce(patcher(schema, context), clone(schema.transform(value, s)))
+  return schema.restore(patched, s)
+}
@@ -0,0 +1,286 @@
+import { safeRestore, safeTransform, stack, toPointer, TransformationError, typeName } from "./errors"
+import { wireKeys } from "./naming"
+import { reflect, walk } from "./reflection"
+import { DefaultSerializationConfig } from "./serialization"
+import { Bound, Direction, IssueDetails, Literal, Stack, TransformationContext } from "./types"
+import { childOf, unwrap } from "./util"
+
+/** what sensitive values are replaced with, unless told otherwise */
+export const Redacted = '[REDACTED]'
+
+/**
+ * the same issue, without the offending value, or with a redacted copy of it. Whatever may quote it is left out too:
+ * `received`, but for the type names reported by `invalid_type`, custom messages, which fall back to those
+ * of the error formatter, and the `cause` of failed conversions
+ */
+function conceal(error: TransformationError, redacting: (offender: any) => any = () => Redacted): TransformationError {
+  const { message, params, ...rest } = error.details
+  const details: IssueDetails = rest
+  if (details.received !== undefined && error.code !== 'invalid_type') {
+    details.received = Redacted
+  }
+
+  if (params !== undefined) {
+    const { cause, ...others } = params
+    details.params = others
+  }
+
+  const concealed = new TransformationError(
+    details,
+    stack<string>([], error.path),
+    error.offender === undefined ? undefined : redacting(error.offender),
+    error.issues.map(e => conceal(e, redacting))
+  )
+
+  concealed.location = error.location
+  return concealed
+}
+
+/**
+ * Mark a part of a schema as sensitive, such as a token or an email address: `redact` masks its values,
+ * and issues raised within it don't carry the offending value, so that it can't reach logs through errors.
+ * Transformation and restoration are otherwise unchanged.
+ * @param schema expression of the sensitive value
+ */
+export function sensitive<B extends Bound<any, any>>(schema: B): B {
+  const guard = <V, R>(run: (value: V, s: Stack) => R) => (value: V, s: Stack = stack()): R => {
+    try {
+      return run(value, s)
+    } catch (e) {
+      throw e instanceof TransformationError ? conceal(e) : e
+    }
+  }
+
+  return {
+    ...schema,
+    transform: guard((object: any, s: Stack) => schema.transform(object, s)),
+    restore: guard((json: any, s: Stack) => schema.restore(json, s)),
+    node: { kind: 'sensitive', inner: schema }
+  }
+}
+
+/** options for `redact` */
+export interface RedactOptions {
+  /** what sensitive values are replaced with, or a function producing it from the value. `'[REDACTED]'` by default */
+  mask?: Literal | ((value: Literal) => Literal)
+  /** transformation context, e.g. the serialization config of documents */
+  context?: TransformationContext
+}
+
+/** whether a sensitive Bound is found anywhere within a Bound */
+function holdsSensitive(bound: Bound<any, any>): boolean {
+  let found = false
+  walk(bound, (_, node) => {
+    found = found || node.kind === 'sensitive'
+    return !found
+  })
+
+  return found
+}
+
+/** a copy of a runtime (`transform`) or serialized (`restore`) value with the sensitive values within it masked */
+function redactValue(schema: Bound<any, any>, value: any, direction: Direction, { mask = Redacted, context = {} }: RedactOptions): any {
+  const masked = (value: any) => typeof mask === 'function' ? mask(value) : mask
+
+  /** the value, masked entirely when it can't be matched to a schema that may hold sensitive values */
+  const unmatched = (bound: Bound<any, any>, value: any) => holdsSensitive(bound) ? masked(value) : value
+
+  /** the first of some Bounds accepting a value */
+  const matching = (bounds: Array<Bound<any, any> | undefined>, value: any) => bounds.find(b => b !== undefined
+    && (direction === 'transform' ? safeTransform(b, value, context) : safeRestore(b, value, context)).success)
+
+  /**
+   * a serialized value of a chain of steps, with the values of the earlier steps decoded,
+   * redacted and encoded again by the steps following them, the way `document` payloads are
+   */
+  const throughSteps = (steps: Bound<any, any>[], value: any): any => {
+    const last = steps[steps.length - 1]
+    const earlier = steps.slice(0, -1)
+    if (earlier.length === 0 || !earlier.some(holdsSensitive)) {
+      return visit(last, value)
+    }
+
+    const s = stack().withContext(context)
+    return visit(last, last.transform(throughSteps(earlier, last.restore(value, s)), s))
+  }
+
+  const visit = (bound: Bound<any, any>, value: any): any => {
+    const unwrapped = unwrap(bound, ['sensitive'])
+    if (value === undefined || (value === null && unwrapped !== bound)) {
+      return value
+    }
+
+    const node = reflect(unwrapped)
+    switch (node.kind) {
+      case 'sensitive':
+        return masked(value)
+      case 'object': {
+        if (typeName(value) !== 'object') {
+          return value
+        }
+
+        const keys = wireKeys(node.shape, node.naming)
+        const fields = Object.fromEntries(Object.keys(keys).map(key => [direction === 'transform' ? key : keys[key], node.shape[key]]))
+        const catchall = typeof node.unknownKeys === 'object' ? node.unknownKeys.catchall : undefined
+        return Object.fromEntries(Object.entries(value).map(([key, v]) => {
+          const field = Object.prototype.hasOwnProperty.call(fields, key) ? fields[key] : catchall
+          return [key, field === undefined ? v : visit(field, v)]
+        }))
+      }
+      case 'extend':
+        return visit(node.extension, visit(node.base, value))
+      case 'intersection':
+        return visit(node.right, visit(node.left, value))
+      case 'class':
+        return visit(node.schema, value)
+      case 'array':
+      case 'set':
+        if (value instanceof Set) {
+          return new Set([...value].map(item => visit(node.item, item)))
+        }
+
+        return Array.isArray(value) ? value.map(item => visit(node.item, item)) : value
+      case 'tuple':
+        return Array.isArray(value)
+          ? value.map((item, i) => {
+            const schema = node.items[i] ?? node.rest
+            return schema === undefined ? item : visit(schema, item)
+          })
+          : value
+      case 'record':
+      case 'map':
+        if (value instanceof Map) {
+          return new Map([...value].map(([k, v]) => [visit(node.key, k), visit(node.value, v)]))
+        }
+
+        if (node.kind === 'map' && node.format === 'entries') {
+          return Array.isArray(value)
+            ? value.map(entry => Array.isArray(entry) ? [visit(node.key, entry[0]), visit(node.value, entry[1])] : entry)
+            : value
+        }
+
+        return typeName(value) === 'object'
+          ? Object.fromEntries(Object.entries(value).map(([key, v]) => [key, visit(node.value, v)]))
+          : value
+      case 'union': {
+        const branch = matching(node.branches, value)
+        return branch === undefined ? unmatched(bound, value) : visit(branch, value)
+      }
+      case 'discriminatedUnion': {
+        const tag = typeName(value) === 'object' ? value[node.key] : undefined
+        const branch = Object.prototype.hasOwnProperty.call(node.branches, tag)
+          ? node.branches[tag]
+          : matching(Object.values(node.branches), value)
+        return branch === undefined ? unmatched(bound, value) : visit(branch, value)
+      }
+      case 'versioned': {
+        const schema = direction === 'transform'
+          ? node.schemas[Math.max(...Object.keys(node.schemas).map(Number))]
+          : typeName(value) === 'object' ? node.schemas[value[node.key]] : undefined
+        return schema === undefined ? unmatched(bound, value) : visit(schema, value)
+      }
+      case 'document': {
+        if (!holdsSensitive(node.schema)) {
+          return value
+        }
+
+        if (direction === 'transform') {
+          return visit(node.schema, value)
+        }
+
+        const config = node.config ?? context.serialization ?? DefaultSerializationConfig
+        try {
+          return config.serializer(visit(node.schema, config.deserializer(value)))
+        } catch {
+          return masked(value)
+        }
+      }
+      case 'pipe':
+        if (direction === 'transform') {
+          return node.steps.slice(1).some(holdsSensitive) ? masked(value) : visit(node.steps[0], value)
+        }
+
+        try {
+          return throughSteps(node.steps, value)
+        } catch {
+          return unmatched(bound, value)
+        }
+      default:
+        return value
+    }
+  }
+
+  return visit(schema, value)
+}
+
+/**
+ * Produce a log-safe copy of a serialized value, with the values of `sensitive` parts of its schema masked.
+ * Objects, collections, unions (whose branches are built with `when`), nested documents and the steps of pipes
+ * are descended into. Where a value can't be matched to its schema, e.g. a document that doesn't parse,
+ * it's masked entirely if it may hold sensitive values.
+ * @param schema expression of the value
+ * @param value serialized value, as produced by `transform`
+ * @param options mask and transformation context
+ */
+export function redact<L>(schema: Bound<any, L>, value: L, options: RedactOptions = {}): L {
+  return redactValue(schema, value, 'restore', options)
+}
+
+/** issues concealed already, by the Bound raising them */
+const redacted = new WeakSet<TransformationError>()
+
+/**
+ * Keep the sensitive values within a Bound out of the issues it raises about the value as a whole,
+ * such as unrecognized keys or a failed refinement, or about one of its children, such as a duplicate item:
+ * their offender is redacted through the Bound or the child's, and whatever may quote it is left out.
+ * Built-in Bounds holding others do this already; custom ones can use it too.
+ * @param bound Bound raising issues about values that may hold sensitive parts
+ * @param offenders whether offenders are the values given to the Bound (`input`),
+ * or runtime values in both directions, as those of refinements
+ */
+export function concealing<B extends Bound<any, any>>(bound: B, offenders: 'input' | 'runtime' = 'input'): B {
+  let sensitive: boolean | undefined
+  const guard = <V, R>(direction: Direction, run: (value: V, s: Stack) => R) => (value: V, s: Stack = stack()): R => {
+    try {
+      return run(value, s)
+    } catch (e) {
+      if (!(e instanceof TransformationError) || !(sensitive ??= holdsSensitive(bound))) {
+        throw e
+      }
+
+      const here = toPointer(s.path)
+      const seen = offenders === 'runtime' ? 'transform' : direction
+      const hide = (issue: TransformationError): TransformationError => {
+        const child = issue.path.length === s.path.length + 1 && issue.pointer.startsWith(`${here}/`)
+        const schema = issue.pointer === here ? bound
+          : child ? childOf(bound, issue.path[s.path.length], seen === direction ? value : undefined, seen) : undefined
+        if (issue.offender === undefined || schema === undefined || redacted.has(issue) || !holdsSensitive(schema)) {
+          return issue
+        }
+
+        const concealed = conceal(issue, offender => redactValue(schema, offender, seen, { context: s.context }))
+        redacted.add(concealed)
+        return concealed
+      }
+
+      if (e.issues.length === 0) {
+        throw hide(e)
+      }
+
+      const issues = e.issues.map(hide)
+      if (issues.every((issue, i) => issue === e.issues[i])) {
+        throw e
+      }
+
+      const rebuilt = new TransformationError(e.details, stack<string>([], e.path), e.offender, issues)
+      rebuilt.location = e.location
+      throw rebuilt
+    }
+  }
+
+  return {
+    ...bound,
+    transform: guard('transform', (object: any, s: Stack) => bound.transform(object, s)),
+    restore: guard('restore', (json: any, s: Stack) => bound.restore(json, s))
+  }
+}
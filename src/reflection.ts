@@ -0,0 +1,106 @@
+import { Bound, PathSegment, SchemaKind, SchemaMeta, SchemaNode } from "./types"
+
+/** A handler per schema kind, with an optional fallback for kinds that aren't handled */
+export type SchemaVisitor<R> = {
+  [K in SchemaKind]?: (node: Extract<SchemaNode, { kind: K }>, bound: Bound<any, any>) => R
+} & {
+  default?: (node: SchemaNode, bound: Bound<any, any>) => R
+}
+
+/** get the description of a Bound. Bounds written by hand without one are reported as `custom` */
+export function reflect(bound: Bound<any, any>): SchemaNode {
+  return bound.node ?? { kind: 'custom' }
+}
+
+/** attach descriptive metadata (title, description, examples...) to a Bound without changing its behavior */
+export function withMeta<T, U>(bound: Bound<T, U>, meta: SchemaMeta): Bound<T, U> {
+  const node = reflect(bound)
+  return {
+    ...bound,
+    node: { ...node, meta: { ...node.meta, ...meta } }
+  }
+}
+
+/** list the Bounds a Bound is directly built from, each labelled by its position in the parent */
+export function children(bound: Bound<any, any>): Array<[PathSegment, Bound<any, any>]> {
+  const node = reflect(bound)
+  switch (node.kind) {
+    case 'optional':
+    case 'nullable':
+    case 'withDefault':
+    case 'refined':
+    case 'sensitive':
+      return [['inner', node.inner]]
+    case 'object':
+      return Object.entries(node.shape)
+    case 'extend':
+      return [['base', node.base], ['extension', node.extension]]
+    case 'intersection':
+      return [['left', node.left], ['right', node.right]]
+    case 'array':
+    case 'set':
+      return [['item', node.item]]
+    case 'tuple':
+      return node.items
+        .map((item, i): [PathSegment, Bound<any, any>] => [i, item])
+        .concat(node.rest !== undefined ? [['rest', node.rest]] : [])
+    case 'record':
+    case 'map':
+      return [['key', node.key], ['value', node.value]]
+    case 'union':
+      return node.branches.flatMap((b, i): Array<[PathSegment, Bound<any, any>]> => b ? [[i, b]] : [])
+    case 'discriminatedUnion':
+      return Object.entries(node.branches)
+    case 'versioned':
+      return Object.entries(node.schemas)
+    case 'document':
+    case 'class':
+      return [['schema', node.schema]]
+    case 'lazy':
+      return [['schema', node.schema()]]
+    case 'pipe':
+      return node.steps.map((step, i): [PathSegment, Bound<any, any>] => [i, step])
+    default:
+      return []
+  }
+}
+
+/** dispatch on the kind of a Bound */
+export function visit<R>(bound: Bound<any, any>, visitor: SchemaVisitor<R>): R {
+  const node = reflect(bound)
+  const handler = (visitor[node.kind] ?? visitor.default) as ((node: SchemaNode, bound: Bound<any, any>) => R) | undefined
+  if (handler === undefined) {
+    throw new Error(`No visitor handler for schema kind '${node.kind}'`)
+  }
+
+  return handler(node, bound)
+}
+
+/**
+ * Walk a schema tree depth-first, parents before children.
+ * Return `false` from the callback to skip the children of the current Bound.
+ * Recursive schemas are walked once: a `lazy` Bound met again within itself is reported, but its children aren't.
+ */
+export function walk(
+  bound: Bound<any, any>,
+  callback: (bound: Bound<any, any>, node: SchemaNode, path: PathSegment[]) => boolean | void,
+  path: PathSegment[] = []
+): void {
+  walkWithin(bound, callback, path, [])
+}
+
+function walkWithin(
+  bound: Bound<any, any>,
+  callback: (bound: Bound<any, any>, node: SchemaNode, path: PathSegment[]) => boolean | void,
+  path: PathSegment[],
+  ancestors: Bound<any, any>[]
+): void {
+  if (callback(bound, reflect(bound), path) === false || ancestors.includes(bound)) {
+    return
+  }
+
+  const within = reflect(bound).kind === 'lazy' ? ancestors.concat(bound) : ancestors
+  for (const [segment, child] of children(bound)) {
+    walkWithin(child, callback, path.concat(segment), within)
+  }
+}
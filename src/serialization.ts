@@ -1,16 +1,66 @@
+import { decodeCbor, decodeMessagePack, encodeCbor, encodeMessagePack } from "./binary"
+import { parseEnv, parseToml, parseYaml, stringifyEnv, stringifyToml, stringifyYaml } from "./text"
 import { Literal, SerializationConfig } from "./types"
 
 export const JsonPrettySerializationConfig: SerializationConfig<Literal, string> = {
   serializer: (lit: Literal) => JSON.stringify(lit, null, 2),
-  deserializer: JSON.parse
+  deserializer: JSON.parse,
+  mediaType: 'application/json'
 }
 
 export const JsonSerializationConfig: SerializationConfig<Literal, string> = {
   serializer: (lit: Literal) => JSON.stringify(lit),
-  deserializer: JSON.parse
+  deserializer: JSON.parse,
+  mediaType: 'application/json'
 }
 
+/** YAML, written in block style. Parse errors raise an `invalid_format` issue carrying the `line` and `column` */
+export const YamlSerializationConfig: SerializationConfig<Literal, string> = {
+  serializer: stringifyYaml,
+  deserializer: parseYaml,
+  mediaType: 'application/yaml'
+}
+
+/**
+ * TOML, for documents that are objects. Dates and times read back as strings, and `null` can't be written.
+ * Parse errors raise an `invalid_format` issue carrying the `line` and `column`
+ */
+export const TomlSerializationConfig: SerializationConfig<Literal, string> = {
+  serializer: stringifyToml,
+  deserializer: parseToml,
+  mediaType: 'application/toml'
+}
+
+/**
+ * Flat `KEY=value` lines as found in .env and INI files, with `[section]`s for objects nested one level deep.
+ * Parse errors raise an `invalid_format` issue carrying the `line` and `column`
+ */
+export const EnvSerializationConfig: SerializationConfig<Literal, string> = {
+  serializer: stringifyEnv,
+  deserializer: parseEnv,
+  mediaType: 'text/plain'
+}
+
+/** MessagePack, for binary storage. Malformed input raises an `invalid_format` issue carrying the byte `offset` */
+export const MessagePackSerializationConfig: SerializationConfig<Literal, Uint8Array> = {
+  serializer: encodeMessagePack,
+  deserializer: decodeMessagePack,
+  mediaType: 'application/msgpack'
+}
+
+/** CBOR (RFC 8949), for binary storage. Malformed input raises an `invalid_format` issue carrying the byte `offset` */
+export const CborSerializationConfig: SerializationConfig<Literal, Uint8Array> = {
+  serializer: encodeCbor,
+  deserializer: decodeCbor,
+  mediaType: 'application/cbor'
+}
+
+/** the serialization config of documents that specify none, when their context doesn't either */
 export let DefaultSerializationConfig: SerializationConfig = JsonPrettySerializationConfig
+/**
+ * @deprecated this default is shared by everything in the process using this library;
+ * set `serialization` in the transformation context instead (see `Stack.withContext`)
+ */
 export function SetDefaultSerializationConfig(config: SerializationConfig) {
   DefaultSerializationConfig = config
 }
@@ -0,0 +1,344 @@
+import { stack, TransformationError } from "./errors"
+import { reflect } from "./reflection"
+import { Bound, Literal, Stack, TransformationContext } from "./types"
+import { unwrap } from "./util"
+
+/** how the items of a stream are laid out: within one top-level JSON array, or one JSON value per line */
+export type StreamFormat = 'json' | 'ndjson'
+
+/** what to do with an item that doesn't fit the schema: leave it out of the stream, or end the stream by throwing */
+export type StreamErrorAction = 'skip' | 'abort'
+
+export interface StreamOptions {
+  /** layout of the serialized stream, `json` by default */
+  format?: StreamFormat
+  /** decides what happens to an item raising an issue, which is located at the item's index. Streams abort by default */
+  onError?: (error: TransformationError, index: number) => StreamErrorAction
+  /** transformation context items are transformed and restored in */
+  context?: TransformationContext
+}
+
+/** the text of one serialized item, and where it starts (both 1-based) */
+interface ItemText {
+  text: string
+  line: number
+  column: number
+}
+
+/**
+ * raise an issue about a stream that isn't laid out as its format says, which ends the stream.
+ * It's located by line and column in the text, or by byte offset for bytes that aren't UTF-8
+ */
+function malformed(format: StreamFormat, reason: string, at: { line: number, column: number } | { offset: number }): never {
+  throw new TransformationError(
+    {
+      code: 'invalid_format',
+      direction: 'restore',
+      expected: format === 'json' ? 'a JSON array' : 'NDJSON',
+      received: reason,
+      params: at
+    },
+    stack()
+  )
+}
+
+/**
+ * splits the items of a top-level JSON array out of chunks of text, without parsing them.
+ * Only strings and nesting are tracked, so malformed items are left for `JSON.parse` to report
+ */
+function jsonSplitter() {
+  let phase: 'open' | 'first' | 'item' | 'value' | 'next' | 'closed' = 'open'
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let item: ItemText = { text: '', line: 1, column: 1 }
+  let line = 1
+  let column = 1
+
+  const push = (chunk: string): ItemText[] => {
+    const items: ItemText[] = []
+    let start = 0
+    const end = (i: number) => {
+      items.push({ ...item, text: (item.text + chunk.slice(start, i)).trim() })
+    }
+
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i]
+      const blank = c === ' ' || c === '\t' || c === '\n' || c === '\r'
+
+      if (phase === 'item') {
+        if (escaped) {
+          escaped = false
+        } else if (inString) {
+          escaped = c === '\\'
+          inString = c !== '"'
+        } else if (c === '"') {
+          inString = true
+        } else if (c === '[' || c === '{') {
+          depth++
+        } else if ((c === ']' || c === '}') && depth > 0) {
+          depth--
+        } else if (c === ']' || (c === ',' && depth === 0)) {
+          end(i)
+          phase = c === ']' ? 'closed' : 'value'
+        }
+      } else if (!blank) {
+        if (phase === 'open') {
+          if (c !== '[') {
+            malformed('json', `'${c}'`, { line, column })
+          }
+
+          phase = 'first'
+        } else if (phase === 'first' && c === ']') {
+          phase = 'closed'
+        } else if (phase === 'first' || phase === 'value') {
+          if (c === ']' || c === ',') {
+            malformed('json', `'${c}' where an item should be`, { line, column })
+          }
+
+          phase = 'item'
+          item = { text: '', line, column }
+          start = i
+          i--
+          continue
+        } else {
+          malformed('json', `'${c}' after the end of the array`, { line, column })
+        }
+      }
+
+      if (c === '\n') {
+        line++
+        column = 1
+      } else {
+        column++
+      }
+    }
+
+    if (phase === 'item') {
+      item.text += chunk.slice(start)
+    }
+
+    return items
+  }
+
+  const finish = (): ItemText[] => {
+    if (phase !== 'closed') {
+      malformed('json', 'the end of the stream before the end of the array', { line, column })
+    }
+
+    return []
+  }
+
+  return { push, finish }
+}
+
+/** splits the lines of NDJSON out of chunks of text, leaving out blank ones */
+function ndjsonSplitter() {
+  let pending = ''
+  let line = 1
+
+  const lines = (text: string, last: boolean): ItemText[] => {
+    const parts = (pending + text).split('\n')
+    pending = last ? '' : parts.pop()!
+    return parts.flatMap(part => {
+      const item = { text: part.trim(), line: line++, column: 1 }
+      return item.text === '' ? [] : [item]
+    })
+  }
+
+  return { push: (chunk: string) => lines(chunk, false), finish: () => lines('', true) }
+}
+
+/**
+ * decodes chunks of UTF-8 bytes, which may split characters. Invalid bytes raise an issue
+ * located at their offset in the stream, so sequences split across chunks are put back together first
+ */
+function utf8Decoder(format: StreamFormat) {
+  const decoder = new TextDecoder('utf-8', { fatal: true })
+  let pending = new Uint8Array(0)
+  let offset = 0
+
+  /** how many bytes at the end of `bytes` start a character that continues in the next chunk */
+  const incomplete = (bytes: Uint8Array): number => {
+    for (let i = 1; i <= Math.min(3, bytes.length); i++) {
+      const byte = bytes[bytes.length - i]
+      if ((byte & 0xc0) !== 0x80) {
+        const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1
+        return length > i ? i : 0
+      }
+    }
+
+    return 0
+  }
+
+  /** decode whole characters, locating the first invalid byte by the longest prefix that decodes */
+  const decode = (bytes: Uint8Array): string => {
+    try {
+      return decoder.decode(bytes)
+    } catch {
+      let valid = 0
+      let invalid = bytes.length
+      while (invalid - valid > 1) {
+        const middle = (valid + invalid) >> 1
+        try {
+          new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, middle), { stream: true })
+          valid = middle
+        } catch {
+          invalid = middle
+        }
+      }
+
+      return malformed(format, 'invalid UTF-8', { offset: offset + invalid - 1 })
+    }
+  }
+
+  const push = (chunk: Uint8Array): string => {
+    const bytes = new Uint8Array(pending.length + chunk.length)
+    bytes.set(pending)
+    bytes.set(chunk, pending.length)
+
+    const end = bytes.length - incomplete(bytes)
+    const text = decode(bytes.subarray(0, end))
+    pending = bytes.slice(end)
+    offset += end
+    return text
+  }
+
+  const finish = (): string => pending.length === 0 ? '' : malformed(format, 'a truncated UTF-8 sequence', { offset })
+
+  return { push, finish }
+}
+
+/** the Bound describing each item of an array Bound, past the wrappers that don't change its structure */
+function itemsOf<T>(schema: Bound<T[], any>): Bound<T, any> {
+  const node = reflect(unwrap(schema))
+  if (node.kind !== 'array') {
+    throw new Error(`Streams can only be made of array schemas, got '${node.kind}'`)
+  }
+
+  return node.item
+}
+
+/** run `step` for the item at `index`, giving back undefined for items the options say to skip */
+function attempt<R>(options: StreamOptions, index: number, step: () => R): { value: R } | undefined {
+  try {
+    return { value: step() }
+  } catch (e) {
+    if (!(e instanceof TransformationError) || (options.onError?.(e, index) ?? 'abort') === 'abort') {
+      throw e
+    }
+
+    return undefined
+  }
+}
+
+/**
+ * Restore the items of a large serialized array one at a time, as its chunks arrive,
+ * rather than holding the whole payload and all of its items in memory at once.
+ * Only the item schema applies: anything refining the array as a whole is not checked.
+ * @param schema array expression of the stream, e.g. `array(itemSchema)`
+ * @param source chunks of text, or of UTF-8 bytes, e.g. a file or response body
+ * @param options layout of the stream, and what to do with items raising an issue
+ */
+export async function* restoreStream<T>(
+  schema: Bound<T[], any>,
+  source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+  options: StreamOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const format = options.format ?? 'json'
+  const itemSchema = itemsOf(schema)
+  const splitter = format === 'json' ? jsonSplitter() : ndjsonSplitter()
+  const decoder = utf8Decoder(format)
+  const s: Stack = stack().withContext(options.context ?? {})
+  let index = 0
+
+  const restore = function* (items: ItemText[]) {
+    for (const { text, line, column } of items) {
+      const at = s.with(`stream:restore[${index}]`, index)
+      const restored = attempt(options, index++, () => {
+        let literal: Literal
+        try {
+          literal = JSON.parse(text)
+        } catch (e) {
+          throw new TransformationError(
+            {
+              code: 'invalid_format',
+              direction: 'restore',
+              expected: 'JSON',
+              received: e instanceof Error ? e.message : String(e),
+              params: { line, column }
+            },
+            at,
+            text
+          )
+        }
+
+        return itemSchema.restore(literal, at)
+      })
+
+      if (restored !== undefined) {
+        yield restored.value
+      }
+    }
+  }
+
+  for await (const chunk of source) {
+    yield* restore(splitter.push(typeof chunk === 'string' ? chunk : decoder.push(chunk)))
+  }
+
+  yield* restore(splitter.push(decoder.finish()))
+  yield* restore(splitter.finish())
+}
+
+/**
+ * Transform items one at a time as they're produced, writing them out as chunks of text
+ * that together form a serialized array (or NDJSON), without ever holding all of them.
+ * Only the item schema applies: anything refining the array as a whole is not checked.
+ * Items transforming to `undefined` are written as `null` within a JSON array, as `JSON.stringify` does,
+ * and raise an issue in NDJSON, which has no way to write them.
+ * @param schema array expression of the stream, e.g. `array(itemSchema)`
+ * @param items runtime items, e.g. rows read from a database
+ * @param options layout of the stream, and what to do with items raising an issue
+ */
+export async function* transformStream<T>(
+  schema: Bound<T[], any>,
+  items: AsyncIterable<T> | Iterable<T>,
+  options: StreamOptions = {}
+): AsyncGenerator<string, void, undefined> {
+  const format = options.format ?? 'json'
+  const itemSchema = itemsOf(schema)
+  const s: Stack = stack().withContext(options.context ?? {})
+  let index = 0
+  let written = 0
+
+  for await (const item of items) {
+    const at = s.with(`stream:transform[${index}]`, index)
+    const transformed = attempt(options, index++, () => {
+      const text: string | undefined = JSON.stringify(itemSchema.transform(item, at))
+      if (text === undefined && format === 'ndjson') {
+        throw new TransformationError(
+          { code: 'invalid_type', direction: 'transform', expected: 'a JSON value', received: 'undefined' },
+          at,
+          item
+        )
+      }
+
+      return text ?? 'null'
+    })
+    if (transformed === undefined) {
+      continue
+    }
+
+    if (format === 'ndjson') {
+      yield `${transformed.value}\n`
+    } else {
+      yield `${written === 0 ? '[' : ','}${transformed.value}`
+    }
+
+    written++
+  }
+
+  if (format === 'json') {
+    yield written === 0 ? '[]' : ']'
+  }
+}
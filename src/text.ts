@@ -0,0 +1,963 @@
+import { stack, TransformationError, typeName } from "./errors"
+import { Literal, PathSegment } from "./types"
+import { define, definedEntries } from "./util"
+
+/** raise an issue about malformed text input, located by line and column (both 1-based) */
+function malformed(format: string, reason: string, line: number, column: number): never {
+  throw new TransformationError(
+    { code: 'invalid_format', direction: 'restore', expected: format, received: reason, params: { line, column } },
+    stack()
+  )
+}
+
+/** raise an issue about a value, found at `path`, that a format has no way to write */
+function unrepresentable(expected: string, value: any, path: PathSegment[]): never {
+  throw new TransformationError(
+    { code: 'invalid_type', direction: 'transform', expected, received: typeName(value) },
+    stack([], path),
+    value
+  )
+}
+
+function has(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+/** position-tracking cursor over a text, reporting failures by line and column */
+function cursor(text: string, format: string, line: number = 1, column: number = 1) {
+  let pos = 0
+
+  return {
+    text,
+    get pos() { return pos },
+    set pos(p: number) { pos = p },
+    get done() { return pos >= text.length },
+    peek: (n: number = 1) => text.slice(pos, pos + n),
+    fail: (reason: string, at: number = pos): never => {
+      const before = text.slice(0, at).split('\n')
+      const last = before[before.length - 1]
+      return malformed(format, reason, line + before.length - 1, before.length === 1 ? column + last.length : last.length + 1)
+    },
+    /** skip spaces and tabs, but not line breaks */
+    blank: () => {
+      while (text[pos] === ' ' || text[pos] === '\t') {
+        pos++
+      }
+    }
+  }
+}
+
+type Cursor = ReturnType<typeof cursor>
+
+const ESCAPES: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\', '/': '/', '0': '\0', ' ': ' ' }
+
+/** read a double quoted string at the cursor, with backslash escapes */
+function doubleQuoted(c: Cursor, multiline: boolean = false): string {
+  const start = c.pos
+  const quote = multiline ? '"""' : '"'
+  c.pos += quote.length
+  if (multiline && c.peek() === '\n') {
+    c.pos++
+  }
+
+  let value = ''
+  while (c.peek(quote.length) !== quote || (multiline && c.peek(4) === '""""')) {
+    if (c.done || (!multiline && c.peek() === '\n')) {
+      c.fail('unterminated string', start)
+    }
+
+    const ch = c.text[c.pos]
+    if (ch !== '\\') {
+      value += ch
+      c.pos++
+      continue
+    }
+
+    const escape = c.text[c.pos + 1]
+    if (multiline && /^[ \t]*\r?\n/.test(c.text.slice(c.pos + 1))) {
+      // a line ending backslash trims the line break and any whitespace that follows
+      c.pos = c.pos + 1 + /^\s*/.exec(c.text.slice(c.pos + 1))![0].length
+    } else if (escape === 'u' || escape === 'U' || escape === 'x') {
+      const length = { u: 4, U: 8, x: 2 }[escape]
+      const hex = c.text.slice(c.pos + 2, c.pos + 2 + length)
+      if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex) || parseInt(hex, 16) > 0x10ffff) {
+        c.fail('invalid unicode escape')
+      }
+
+      value += String.fromCodePoint(parseInt(hex, 16))
+      c.pos += 2 + length
+    } else if (escape !== undefined && has(ESCAPES, escape)) {
+      value += ESCAPES[escape]
+      c.pos += 2
+    } else {
+      c.fail(`invalid escape '\\${escape ?? ''}'`)
+    }
+  }
+
+  c.pos += quote.length
+  return value
+}
+
+/** read a single quoted string at the cursor, where quotes are escaped by doubling them (`''`) in YAML */
+function singleQuoted(c: Cursor, doubling: boolean, multiline: boolean = false): string {
+  const start = c.pos
+  const quote = multiline ? "'''" : "'"
+  c.pos += quote.length
+  if (multiline && c.peek() === '\n') {
+    c.pos++
+  }
+
+  let value = ''
+  while (true) {
+    if (c.done || (!multiline && c.peek() === '\n')) {
+      c.fail('unterminated string', start)
+    }
+
+    if (doubling && c.peek(2) === "''") {
+      value += "'"
+      c.pos += 2
+    } else if (c.peek(quote.length) === quote && !(multiline && c.peek(4) === "''''")) {
+      c.pos += quote.length
+      return value
+    } else {
+      value += c.text[c.pos++]
+    }
+  }
+}
+
+/** double quoted form of a string, using only escapes every format here understands */
+function quote(value: string): string {
+  return JSON.stringify(value).replace(/\u007f/g, '\\u007f')
+}
+
+// YAML
+
+/** resolve a plain (unquoted) YAML scalar following the core schema */
+function yamlScalar(text: string): Literal {
+  if (/^(|~|null|Null|NULL)$/.test(text)) {
+    return null
+  } else if (/^(true|True|TRUE)$/.test(text)) {
+    return true
+  } else if (/^(false|False|FALSE)$/.test(text)) {
+    return false
+  } else if (/^[-+]?[0-9]+$/.test(text) || /^0x[0-9a-fA-F]+$/.test(text) || /^0o[0-7]+$/.test(text)) {
+    return Number(text)
+  } else if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) {
+    return Number(text)
+  } else if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) {
+    return text.startsWith('-') ? -Infinity : Infinity
+  } else if (/^\.(nan|NaN|NAN)$/.test(text)) {
+    return NaN
+  }
+
+  return text
+}
+
+interface YamlLine {
+  number: number
+  indent: number
+  /** content without indentation and trailing comment */
+  text: string
+  raw: string
+}
+
+/** cut a trailing comment, a `#` preceded by whitespace outside of quotes */
+function stripComment(text: string): string {
+  let quoted: string | undefined
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted === undefined) {
+      if ((ch === '"' || ch === "'") && (i === 0 || /[\s[{,:]/.test(text[i - 1]))) {
+        quoted = ch
+      } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+        return text.slice(0, i)
+      }
+    } else if (quoted === '"' && ch === '\\') {
+      i++
+    } else if (quoted === "'" && ch === "'" && text[i + 1] === "'") {
+      i++
+    } else if (ch === quoted) {
+      quoted = undefined
+    }
+  }
+
+  return text
+}
+
+/** parse the subset of YAML covering the `Literal` data model: block and flow collections, and scalars */
+export function parseYaml(source: string): Literal {
+  const fail = (reason: string, line: number, column: number): never => malformed('YAML', reason, line, column)
+
+  const lines: YamlLine[] = []
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const indent = raw.length - raw.replace(/^ */, '').length
+    const text = stripComment(raw.slice(indent)).trimEnd()
+    if (text.startsWith('\t')) {
+      fail('tab in indentation', i + 1, indent + 1)
+    }
+
+    if (text === '---' && indent === 0) {
+      if (lines.some(l => l.text !== '')) {
+        fail('multiple documents are not supported', i + 1, 1)
+      }
+
+      return
+    }
+
+    lines.push({ number: i + 1, indent, text: text.startsWith('%') && indent === 0 ? '' : text, raw })
+  })
+
+  let index = 0
+  const peek = (): YamlLine | undefined => {
+    while (index < lines.length && lines[index].text === '') {
+      index++
+    }
+
+    return lines[index]
+  }
+
+  const isItem = (text: string) => text === '-' || text.startsWith('- ')
+
+  /** split a `key: value` line, or return undefined when the line isn't one */
+  const entry = (line: YamlLine): { key: string, rest: string, column: number } | undefined => {
+    const text = line.text
+    let end: number
+    let key: string
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const c = cursor(text, 'YAML', line.number, line.indent + 1)
+      key = text.startsWith('"') ? doubleQuoted(c) : singleQuoted(c, true)
+      c.blank()
+      if (c.peek() !== ':') {
+        return undefined
+      }
+
+      end = c.pos
+    } else {
+      const match = /^([^[{][^]*?)\s*:(\s|$)/.exec(text)
+      if (match === null) {
+        return undefined
+      }
+
+      key = match[1]
+      end = text.indexOf(':', match[1].length)
+    }
+
+    const rest = text.slice(end + 1).trimStart()
+    return { key, rest, column: line.indent + text.length - rest.length + 1 }
+  }
+
+  /** parse a value written on a single line: a scalar or a flow collection */
+  const inline = (text: string, line: YamlLine, column: number): Literal => {
+    const c = cursor(text, 'YAML', line.number, column)
+    let depth = 0
+
+    const value = (): Literal => {
+      c.blank()
+      const ch = c.peek()
+      if (ch === '&' || ch === '*' || ch === '!') {
+        return c.fail('anchors, aliases and tags are not supported')
+      } else if (ch === '"') {
+        return doubleQuoted(c)
+      } else if (ch === "'") {
+        return singleQuoted(c, true)
+      } else if (ch === '[') {
+        c.pos++
+        depth++
+        const items: Literal[] = []
+        while (true) {
+          c.blank()
+          if (c.peek() === ']') {
+            c.pos++
+            depth--
+            return items
+          }
+
+          items.push(value())
+          c.blank()
+          if (c.peek() === ',') {
+            c.pos++
+          } else if (c.peek() !== ']') {
+            c.fail(`expected ',' or ']'`)
+          }
+        }
+      } else if (ch === '{') {
+        c.pos++
+        depth++
+        const record: Record<string, Literal> = {}
+        while (true) {
+          c.blank()
+          if (c.peek() === '}') {
+            c.pos++
+            depth--
+            return record
+          }
+
+          const at = c.pos
+          const key = value()
+          c.blank()
+          if (c.peek() !== ':') {
+            c.fail(`expected ':'`)
+          }
+
+          c.pos++
+          if (typeof key !== 'string' && typeof key !== 'number' && typeof key !== 'boolean') {
+            c.fail('mapping keys must be scalars', at)
+          }
+
+          if (has(record, String(key))) {
+            c.fail(`duplicate key '${key}'`, at)
+          }
+
+          define(record, String(key), value())
+          c.blank()
+          if (c.peek() === ',') {
+            c.pos++
+          } else if (c.peek() !== '}') {
+            c.fail(`expected ',' or '}'`)
+          }
+        }
+      }
+
+      // plain scalars inside flow collections end at any flow indicator
+      const rest = c.text.slice(c.pos)
+      const plain = depth === 0 ? rest : /^[^,[\]{}]*?(?=\s*(:(\s|$)|[,\]}]|$))/.exec(rest)?.[0]
+      if (plain === undefined) {
+        return c.fail('invalid scalar in flow collection')
+      }
+
+      c.pos += plain.length
+      return yamlScalar(plain.trim())
+    }
+
+    const result = value()
+    c.blank()
+    if (!c.done) {
+      c.fail('unexpected content after value')
+    }
+
+    return result
+  }
+
+  /** read a literal (`|`) or folded (`>`) block scalar following the line of its header */
+  const block = (header: string, parent: number, line: YamlLine): string => {
+    if (!/^[|>][-+]?$/.test(header)) {
+      fail('unsupported block scalar header', line.number, line.raw.indexOf(header) + 1)
+    }
+
+    const content: string[] = []
+    let indent: number | undefined
+    while (index < lines.length) {
+      const raw = lines[index].raw
+      if (raw.trim() === '') {
+        content.push('')
+        index++
+        continue
+      }
+
+      const current = lines[index].indent
+      if (current <= parent || (indent !== undefined && current < indent)) {
+        break
+      }
+
+      indent ??= current
+      content.push(raw.slice(indent))
+      index++
+    }
+
+    let trailing = 0
+    while (trailing < content.length && content[content.length - trailing - 1] === '') {
+      trailing++
+    }
+
+    const body = content.slice(0, content.length - trailing)
+    let text = body.join('\n')
+    if (header[0] === '>') {
+      // folding joins consecutive lines with a space, while each blank line stands for a line break
+      text = body.reduce((acc, l, i) => i === 0 ? l : l === '' ? acc + '\n' : acc + (body[i - 1] === '' ? '' : ' ') + l, '')
+    }
+
+    if (header[1] === '-' || body.length === 0) {
+      return text
+    }
+
+    return header[1] === '+' ? text + '\n'.repeat(trailing + 1) : text + '\n'
+  }
+
+  const sequence = (indent: number): Literal[] => {
+    const items: Literal[] = []
+    let line: YamlLine | undefined
+    while ((line = peek()) !== undefined && line.indent === indent && isItem(line.text)) {
+      const rest = line.text.slice(1).trimStart()
+      if (rest === '') {
+        index++
+        const next = peek()
+        items.push(next !== undefined && next.indent > indent ? node(indent + 1) : null)
+      } else {
+        // read what follows the dash as if it started its own line, so that compact nested collections work
+        const offset = line.text.length - rest.length
+        lines[index] = { ...line, indent: indent + offset, text: rest }
+        items.push(node(indent + offset))
+      }
+    }
+
+    return items
+  }
+
+  const mapping = (indent: number): Record<string, Literal> => {
+    const record: Record<string, Literal> = {}
+    let line: YamlLine | undefined
+    while ((line = peek()) !== undefined && line.indent >= indent) {
+      if (line.indent > indent) {
+        fail('unexpected indentation', line.number, line.indent + 1)
+      }
+
+      const found = entry(line)
+      if (found === undefined) {
+        return fail('expected a mapping key', line.number, line.indent + 1)
+      }
+
+      const { key, rest, column } = found
+      if (has(record, key)) {
+        fail(`duplicate key '${key}'`, line.number, line.indent + 1)
+      }
+
+      index++
+      let value: Literal
+      if (rest === '') {
+        const next = peek()
+        value = next === undefined || next.indent < indent
+          ? null
+          : next.indent > indent ? node(indent + 1) : isItem(next.text) ? sequence(indent) : null
+      } else if (rest.startsWith('|') || rest.startsWith('>')) {
+        value = block(rest, indent, line)
+      } else {
+        value = inline(rest, line, column)
+      }
+
+      define(record, key, value)
+    }
+
+    return record
+  }
+
+  /** parse whatever node starts at the next line, indented at least by `indent` */
+  const node = (indent: number): Literal => {
+    const line = peek()
+    if (line === undefined || line.indent < indent) {
+      return null
+    } else if (isItem(line.text)) {
+      return sequence(line.indent)
+    } else if (entry(line) !== undefined) {
+      return mapping(line.indent)
+    }
+
+    index++
+    return inline(line.text, line, line.indent + 1)
+  }
+
+  const document = node(0)
+  const leftover = peek()
+  if (leftover !== undefined && leftover.text !== '...') {
+    fail(leftover.indent > 0 ? 'unexpected indentation' : 'unexpected content', leftover.number, leftover.indent + 1)
+  }
+
+  return document
+}
+
+/** a YAML scalar for a string, plain when that reads back as the same string and double quoted otherwise */
+function yamlString(value: string): string {
+  const plain = value !== ''
+    && value === value.trim()
+    && yamlScalar(value) === value
+    && !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value)
+    && !/: |:$| #|[\u0000-\u001f\u007f]/.test(value)
+
+  return plain ? value : quote(value)
+}
+
+/** write a Literal as block style YAML */
+export function stringifyYaml(value: Literal): string {
+  const isCollection = (v: any) => (Array.isArray(v) && v.length > 0) || (typeName(v) === 'object' && definedEntries(v).length > 0)
+
+  const scalar = (v: any, path: PathSegment[]): string => {
+    if (v === null || v === undefined) {
+      return 'null'
+    } else if (typeof v === 'boolean') {
+      return String(v)
+    } else if (typeof v === 'number') {
+      return Number.isNaN(v) ? '.nan' : v === Infinity ? '.inf' : v === -Infinity ? '-.inf' : String(v)
+    } else if (typeof v === 'string') {
+      return yamlString(v)
+    } else if (Array.isArray(v)) {
+      return '[]'
+    } else if (typeName(v) === 'object') {
+      return '{}'
+    }
+
+    return unrepresentable('Literal', v, path)
+  }
+
+  const render = (v: any, path: PathSegment[]): string[] => {
+    if (!isCollection(v)) {
+      return [scalar(v, path)]
+    }
+
+    if (Array.isArray(v)) {
+      return v.flatMap((item, i) => render(item, path.concat(i)).map((l, j) => (j === 0 ? '- ' : '  ') + l))
+    }
+
+    return definedEntries(v).flatMap(([key, item]) => isCollection(item)
+      ? [`${yamlString(key)}:`, ...render(item, path.concat(key)).map(l => '  ' + l)]
+      : [`${yamlString(key)}: ${scalar(item, path.concat(key))}`]
+    )
+  }
+
+  return render(value, []).join('\n') + '\n'
+}
+
+// TOML
+
+const BARE_KEY = /^[A-Za-z0-9_-]+$/
+
+/** parse a TOML document. Dates and times are kept as (ISO 8601) strings, since they aren't part of the `Literal` data model */
+export function parseToml(source: string): Literal {
+  const c = cursor(source.replace(/\r\n/g, '\n'), 'TOML')
+  const root: Record<string, any> = {}
+  /** tables and arrays that can't be added to anymore: inline ones, and tables given a header */
+  const sealed = new Set<object>()
+  const headed = new Set<object>()
+  const tableArrays = new Set<any[]>()
+
+  /** skip whitespace, line breaks and comments */
+  const gap = () => {
+    while (!c.done) {
+      c.blank()
+      if (c.peek() === '#') {
+        while (!c.done && c.peek() !== '\n') {
+          c.pos++
+        }
+      } else if (c.peek() === '\n') {
+        c.pos++
+      } else {
+        return
+      }
+    }
+  }
+
+  const keyPart = (): string => {
+    c.blank()
+    if (c.peek(3) === '"""' || c.peek(3) === "'''") {
+      return c.fail('multi-line strings cannot be keys')
+    } else if (c.peek() === '"') {
+      return doubleQuoted(c)
+    } else if (c.peek() === "'") {
+      return singleQuoted(c, false)
+    }
+
+    const bare = /^[A-Za-z0-9_-]*/.exec(c.text.slice(c.pos))![0]
+    if (bare === '') {
+      c.fail('expected a key')
+    }
+
+    c.pos += bare.length
+    return bare
+  }
+
+  const key = (): string[] => {
+    const parts = [keyPart()]
+    c.blank()
+    while (c.peek() === '.') {
+      c.pos++
+      parts.push(keyPart())
+      c.blank()
+    }
+
+    return parts
+  }
+
+  /** walk down to the table at `path`, creating missing ones; arrays of tables lead to their last table */
+  const descend = (table: Record<string, any>, path: string[], at: number): Record<string, any> => {
+    for (const part of path) {
+      if (!has(table, part)) {
+        define(table, part, {})
+      }
+
+      let next = table[part]
+      if (tableArrays.has(next)) {
+        next = next[next.length - 1]
+      }
+
+      if (typeName(next) !== 'object' || sealed.has(next)) {
+        c.fail(`key '${part}' is already defined`, at)
+      }
+
+      table = next
+    }
+
+    return table
+  }
+
+  const number = (): number | string | undefined => {
+    const rest = c.text.slice(c.pos)
+    const datetime = /^(\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:\d{2})?)?|\d{2}:\d{2}(:\d{2}(\.\d+)?)?)/.exec(rest)
+    if (datetime !== null) {
+      c.pos += datetime[0].length
+      return datetime[0].replace(' ', 'T')
+    }
+
+    const special = /^[+-]?(inf|nan)/.exec(rest)
+    if (special !== null) {
+      c.pos += special[0].length
+      return special[1] === 'nan' ? NaN : special[0].startsWith('-') ? -Infinity : Infinity
+    }
+
+    const integer = /^(0x[0-9a-fA-F](_?[0-9a-fA-F])*|0o[0-7](_?[0-7])*|0b[01](_?[01])*)/.exec(rest)
+      ?? /^[+-]?(0|[1-9](_?\d)*)(\.\d(_?\d)*)?([eE][+-]?\d(_?\d)*)?/.exec(rest)
+    if (integer === null) {
+      return undefined
+    }
+
+    c.pos += integer[0].length
+    const digits = integer[0].replace(/_/g, '')
+    return /^0[ob]/.test(digits) ? parseInt(digits.slice(2), digits[1] === 'o' ? 8 : 2) : Number(digits)
+  }
+
+  const value = (): any => {
+    c.blank()
+    const start = c.pos
+    let result: any
+    if (c.peek(3) === '"""') {
+      result = doubleQuoted(c, true)
+    } else if (c.peek() === '"') {
+      result = doubleQuoted(c)
+    } else if (c.peek(3) === "'''") {
+      result = singleQuoted(c, false, true)
+    } else if (c.peek() === "'") {
+      result = singleQuoted(c, false)
+    } else if (c.peek(4) === 'true') {
+      c.pos += 4
+      result = true
+    } else if (c.peek(5) === 'false') {
+      c.pos += 5
+      result = false
+    } else if (c.peek() === '[') {
+      c.pos++
+      result = []
+      while (true) {
+        gap()
+        if (c.peek() === ']') {
+          c.pos++
+          break
+        }
+
+        result.push(value())
+        gap()
+        if (c.peek() === ',') {
+          c.pos++
+        } else if (c.peek() !== ']') {
+          c.fail(`expected ',' or ']'`)
+        }
+      }
+
+      sealed.add(result)
+    } else if (c.peek() === '{') {
+      c.pos++
+      result = {}
+      c.blank()
+      if (c.peek() === '}') {
+        c.pos++
+      } else {
+        while (true) {
+          const at = c.pos
+          const path = key()
+          if (c.peek() !== '=') {
+            c.fail(`expected '='`)
+          }
+
+          c.pos++
+          const table = descend(result, path.slice(0, -1), at)
+          const last = path[path.length - 1]
+          if (has(table, last)) {
+            c.fail(`key '${last}' is already defined`, at)
+          }
+
+          define(table, last, value())
+          c.blank()
+          if (c.peek() === '}') {
+            c.pos++
+            break
+          } else if (c.peek() !== ',') {
+            c.fail(`expected ',' or '}'`)
+          }
+
+          c.pos++
+        }
+      }
+
+      sealed.add(result)
+    } else {
+      result = number()
+      if (result === undefined) {
+        c.fail('invalid value', start)
+      }
+    }
+
+    if (!c.done && !/[\s,\]}#]/.test(c.peek())) {
+      c.fail('invalid value', start)
+    }
+
+    return result
+  }
+
+  let current = root
+  gap()
+  while (!c.done) {
+    const at = c.pos
+    if (c.peek(2) === '[[') {
+      c.pos += 2
+      const path = key()
+      if (c.peek(2) !== ']]') {
+        c.fail(`expected ']]'`)
+      }
+
+      c.pos += 2
+      const parent = descend(root, path.slice(0, -1), at)
+      const last = path[path.length - 1]
+      if (!has(parent, last)) {
+        const array: any[] = []
+        define(parent, last, array)
+        tableArrays.add(array)
+      }
+
+      if (!tableArrays.has(parent[last])) {
+        c.fail(`key '${last}' is already defined`, at)
+      }
+
+      current = {}
+      parent[last].push(current)
+    } else if (c.peek() === '[') {
+      c.pos++
+      const path = key()
+      if (c.peek() !== ']') {
+        c.fail(`expected ']'`)
+      }
+
+      c.pos++
+      const parent = descend(root, path.slice(0, -1), at)
+      const last = path[path.length - 1]
+      if (has(parent, last) && (headed.has(parent[last]) || typeName(parent[last]) !== 'object' || sealed.has(parent[last]))) {
+        c.fail(`table '${path.join('.')}' is already defined`, at)
+      }
+
+      current = descend(parent, [last], at)
+      headed.add(current)
+    } else {
+      const path = key()
+      if (c.peek() !== '=') {
+        c.fail(`expected '='`)
+      }
+
+      c.pos++
+      const table = descend(current, path.slice(0, -1), at)
+      const last = path[path.length - 1]
+      if (has(table, last)) {
+        c.fail(`key '${last}' is already defined`, at)
+      }
+
+      define(table, last, value())
+    }
+
+    c.blank()
+    if (c.peek() === '#') {
+      gap()
+    } else if (!c.done && c.peek() !== '\n') {
+      c.fail('expected a line break')
+    }
+
+    gap()
+  }
+
+  return root
+}
+
+/** write a Literal object as a TOML document. `null` has no TOML form, so it is rejected */
+export function stringifyToml(value: Literal): string {
+  if (typeName(value) !== 'object') {
+    unrepresentable('object', value, [])
+  }
+
+  const key = (k: string) => BARE_KEY.test(k) ? k : quote(k)
+  const isTable = (v: any) => typeName(v) === 'object'
+  const isTableArray = (v: any) => Array.isArray(v) && v.length > 0 && v.every(isTable)
+
+  const inline = (v: any, path: PathSegment[]): string => {
+    if (typeof v === 'boolean') {
+      return String(v)
+    } else if (typeof v === 'number') {
+      return Number.isNaN(v) ? 'nan' : v === Infinity ? 'inf' : v === -Infinity ? '-inf' : String(v)
+    } else if (typeof v === 'string') {
+      return quote(v)
+    } else if (Array.isArray(v)) {
+      return `[${v.map((item, i) => inline(item, path.concat(i))).join(', ')}]`
+    } else if (isTable(v)) {
+      const entries = definedEntries(v)
+      return entries.length === 0 ? '{}' : `{ ${entries.map(([k, item]) => `${key(k)} = ${inline(item, path.concat(k))}`).join(', ')} }`
+    }
+
+    return unrepresentable('a value TOML can represent', v, path)
+  }
+
+  const lines: string[] = []
+  const table = (record: Record<string, any>, path: string[]) => {
+    const entries = definedEntries(record)
+    for (const [k, v] of entries.filter(([, v]) => !isTable(v) && !isTableArray(v))) {
+      lines.push(`${key(k)} = ${inline(v, path.concat(k))}`)
+    }
+
+    for (const [k, v] of entries.filter(([, v]) => isTable(v))) {
+      lines.push('', `[${path.concat(k).map(key).join('.')}]`)
+      table(v, path.concat(k))
+    }
+
+    for (const [k, v] of entries.filter(([, v]) => isTableArray(v))) {
+      for (const item of v) {
+        lines.push('', `[[${path.concat(k).map(key).join('.')}]]`)
+        table(item, path.concat(k))
+      }
+    }
+  }
+
+  table(value as Record<string, any>, [])
+  return lines.join('\n').trimStart() + '\n'
+}
+
+// .env / INI
+
+const ENV_KEY = /^[A-Za-z_][A-Za-z0-9_.-]*$/
+
+/** resolve an unquoted .env value: booleans, null and numbers are typed, anything else is a string */
+function envScalar(text: string): Literal {
+  if (text === 'true' || text === 'false') {
+    return text === 'true'
+  } else if (text === 'null') {
+    return null
+  } else if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(text)) {
+    return Number(text)
+  }
+
+  return text
+}
+
+/**
+ * parse flat `KEY=value` lines, as found in .env and INI files. `[section]` headers start a nested object.
+ * Unquoted values that read as booleans, null or numbers are typed; quoted ones are always strings.
+ */
+export function parseEnv(source: string): Literal {
+  const root: Record<string, any> = {}
+  let current = root
+
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const c = cursor(raw, '.env', i + 1)
+    c.blank()
+    if (c.done || c.peek() === '#' || c.peek() === ';') {
+      return
+    }
+
+    if (c.peek() === '[') {
+      const match = /^\[\s*([^\]]*?)\s*\]\s*([#;].*)?$/.exec(raw.trim())
+      if (match === null || !ENV_KEY.test(match[1])) {
+        c.fail('invalid section header')
+      }
+
+      if (has(root, match![1])) {
+        c.fail(`section '${match![1]}' is already defined`)
+      }
+
+      current = {}
+      define(root, match![1], current)
+      return
+    }
+
+    if (/^export\s/.test(c.text.slice(c.pos))) {
+      c.pos += 'export'.length
+      c.blank()
+    }
+
+    const at = c.pos
+    const key = /^[^=]*/.exec(c.text.slice(c.pos))![0].trim()
+    if (!ENV_KEY.test(key)) {
+      c.fail(key === '' ? 'expected KEY=value' : `invalid key '${key}'`, at)
+    }
+
+    c.pos = c.text.indexOf('=', c.pos)
+    if (c.pos === -1) {
+      c.fail('expected KEY=value', at)
+    }
+
+    c.pos++
+    c.blank()
+    let value: Literal
+    if (c.peek() === '"') {
+      value = doubleQuoted(c)
+    } else if (c.peek() === "'") {
+      value = singleQuoted(c, false)
+    } else {
+      value = envScalar(c.text.slice(c.pos).replace(/(^|\s+)[#;].*$/, '').trim())
+      c.pos = c.text.length
+    }
+
+    c.blank()
+    if (!c.done && c.peek() !== '#' && c.peek() !== ';') {
+      c.fail('unexpected content after value')
+    }
+
+    if (has(current, key)) {
+      c.fail(`key '${key}' is already defined`, at)
+    }
+
+    define(current, key, value)
+  })
+
+  return root
+}
+
+/** write a Literal object as `KEY=value` lines, with nested objects (one level deep) as `[section]`s */
+export function stringifyEnv(value: Literal): string {
+  if (typeName(value) !== 'object') {
+    unrepresentable('object', value, [])
+  }
+
+  const key = (k: string, path: PathSegment[]) => {
+    if (!ENV_KEY.test(k)) {
+      throw new TransformationError(`Key '${k}' cannot be written to a .env file`, stack([], path), k)
+    }
+
+    return k
+  }
+
+  const scalar = (v: any, path: PathSegment[]): string => {
+    if (v === null || typeof v === 'boolean' || (typeof v === 'number' && Number.isFinite(v))) {
+      return String(v)
+    } else if (typeof v === 'string') {
+      const plain = v !== '' && v === v.trim() && envScalar(v) === v && !/^["'#;]|\s[#;]|[\u0000-\u001f\u007f]/.test(v)
+      return plain ? v : quote(v)
+    }
+
+    return unrepresentable('a string, number, boolean or null', v, path)
+  }
+
+  const entries = definedEntries(value as Record<string, any>)
+  const sections = entries.filter(([, v]) => typeName(v) === 'object')
+  const lines = entries
+    .filter(([, v]) => typeName(v) !== 'object')
+    .map(([k, v]) => `${key(k, [k])}=${scalar(v, [k])}`)
+
+  for (const [section, record] of sections) {
+    lines.push('', `[${key(section, [section])}]`)
+    for (const [k, v] of definedEntries(record)) {
+      lines.push(`${key(k, [section, k])}=${scalar(v, [section, k])}`)
+    }
+  }
+
+  return lines.join('\n').trimStart() + '\n'
+}
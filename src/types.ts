@@ -1,3 +1,5 @@
+import type { TransformationError } from "./errors"
+
 /**
  * Represents an element that can be transformed between two types bi-directionally.
  * By default, the destination/representation type is a JSON Literal.
@@ -6,8 +8,80 @@ export interface Bound<TSource, TTarget = Literal> {
   transform(object: TSource, stack?: Stack): TTarget
   restore(json: TTarget, stack?: Stack): TSource
   attributes?: Record<string, any>
+  /** introspectable description of this element; see `reflect` */
+  node?: SchemaNode
 }
 
+/** How an object treats keys that aren't part of its schema; see `ObjectOptions` */
+export type UnknownKeyPolicy = 'strip' | 'strict' | 'passthrough' | { catchall: Bound<any, any> }
+
+/**
+ * How runtime (camelCase) keys are named on the wire.
+ * Custom strategies convert in both directions.
+ */
+export type NamingStrategy =
+  | 'camel'
+  | 'snake'
+  | 'kebab'
+  | 'pascal'
+  | CustomNaming
+
+/** A naming strategy converting keys with functions, which must be inverse of each other */
+export type CustomNaming = { toWire: (key: string) => string, fromWire: (key: string) => string }
+
+/** Descriptive metadata attached to a schema node, e.g. for documentation */
+export type SchemaMeta = Record<string, any>
+
+type Node<K extends string, C = {}> = { kind: K, meta?: SchemaMeta } & C
+
+/** Uniform, typed description of what a Bound is and which Bounds it is built from */
+export type SchemaNode =
+  | Node<'any'>
+  | Node<'custom'>
+  | Node<'string'>
+  | Node<'number'>
+  | Node<'boolean'>
+  | Node<'null'>
+  | Node<'literal', { value: Literal }>
+  | Node<'oneOf', { values: Literal[] }>
+  | Node<'validated'>
+  /** `schema` resolves the deferred schema, building it upon first use */
+  | Node<'lazy', { schema: () => Bound<any, any> }>
+  /** `check` names the constraint, e.g. `minLength`, and `params` holds its arguments */
+  | Node<'refined', { inner: Bound<any, any>, check: string, params: Record<string, any> }>
+  /** values are masked by `redact`, and in the issues raised within it */
+  | Node<'sensitive', { inner: Bound<any, any> }>
+  | Node<'optional', { inner: Bound<any, any> }>
+  | Node<'nullable', { inner: Bound<any, any> }>
+  /** `value` is either the default itself or a factory producing it */
+  | Node<'withDefault', { inner: Bound<any, any>, value: any }>
+  | Node<'object', { shape: Record<string, Bound<any, any>>, unknownKeys?: UnknownKeyPolicy, naming?: NamingStrategy }>
+  | Node<'extend', { base: Bound<any, any>, extension: Bound<any, any> }>
+  | Node<'intersection', { left: Bound<any, any>, right: Bound<any, any> }>
+  | Node<'class', { ctor: Function, schema: Bound<any, any> }>
+  | Node<'array', { item: Bound<any, any> }>
+  /** `rest` is the schema of the items following the fixed ones, if any may */
+  | Node<'tuple', { items: Array<Bound<any, any>>, rest?: Bound<any, any> }>
+  | Node<'record', { key: Bound<any, any>, value: Bound<any, any> }>
+  /** branches are only known for discriminators built with `when`; others are left undefined */
+  | Node<'union', { branches: Array<Bound<any, any> | undefined> }>
+  | Node<'discriminatedUnion', { key: string, branches: Record<string, Bound<any, any>> }>
+  /** `config` is left undefined when the document uses the one of its context */
+  | Node<'document', { schema: Bound<any, any>, config?: SerializationConfig<any, any> }>
+  | Node<'versioned', { key: string, schemas: Record<number, Bound<any, any>>, migrations: Record<number, (previous: any) => any> }>
+  | Node<'date', { format: 'iso' | 'epoch' }>
+  | Node<'bigint'>
+  | Node<'map', { key: Bound<any, any>, value: Bound<any, any>, format: 'entries' | 'record' }>
+  | Node<'set', { item: Bound<any, any> }>
+  | Node<'url'>
+  | Node<'regexp'>
+  | Node<'bytes', { encoding: 'base64' | 'hex' }>
+  | Node<'codec', { name: string }>
+  /** `steps` are chained first to last upon transformation */
+  | Node<'pipe', { steps: Array<Bound<any, any>> }>
+
+export type SchemaKind = SchemaNode['kind']
+
 export type Literal = Primitive | PrimitiveRecord | PrimitiveArray
 export type Primitive = string | number | boolean | null | undefined
 export type PrimitiveArray = Literal[]
@@ -17,19 +91,126 @@ export type ToStringable = string | number | boolean | { toString(): string }
 
 export type DefaultStackType = string
 
+/** A single step into a structure: an object key or an array index */
+export type PathSegment = string | number
+
+/** Identities of the objects of a graph transformed or restored in reference mode */
+export interface ReferenceTable {
+  /** objects reached more than once from the root, which are emitted with an `$id` */
+  shared: Set<object>
+  /** ids given to shared objects so far upon transformation, along with the pointer they were emitted at */
+  ids: Map<object, { id: string, pointer: string }>
+  /** objects restored so far by id, upon restoration */
+  objects: Map<string, object>
+  /** shared collections being copied, upon transformation, as only objects can be referenced */
+  copying: Set<object>
+  /** keys marking shared objects with their id, and references to them, on the wire */
+  markers: { id: string, ref: string }
+}
+
 /**
- * Represents a stack of error messages with a helper function to concat new ones
+ * Settings and user data shared by a whole transformation or restoration.
+ * Settings left unset fall back to the process-wide defaults, e.g. `DefaultSerializationConfig`.
+ */
+export interface TransformationContext {
+  /** serialization config of `document`s that aren't given one explicitly */
+  serialization?: SerializationConfig<any, any>
+  /** unknown key policy of `object`s that aren't given one explicitly */
+  unknownKeys?: UnknownKeyPolicy
+  /** whether bounds that support it accept string representations of their values upon restoration */
+  coerce?: boolean
+  /** objects met so far in reference mode, set by `references` */
+  references?: ReferenceTable
+  /** arbitrary data for custom bounds to read, such as a locale or a tenant id */
+  data?: Record<string, any>
+}
+
+/**
+ * Represents a stack of error messages with a helper function to concat new ones.
+ * Alongside the messages, the keys and indices walked so far are tracked as a path,
+ * and the context of the transformation is carried along.
  */
 export interface Stack<T extends ToStringable = DefaultStackType> {
-  with: (message: T) => Stack<T>
+  with: (message: T, key?: PathSegment) => Stack<T>
+  /** the same stack, with part of its context overridden for everything below it */
+  withContext: (overrides: TransformationContext) => Stack<T>
   stack: T[]
+  path: PathSegment[]
+  context: TransformationContext
+}
+
+/** Which way a value was travelling when an issue was raised */
+export type Direction = 'transform' | 'restore'
+
+/** Stable, machine-readable identifiers for each kind of issue */
+export type IssueCode =
+  | 'invalid_type'
+  | 'missing_key'
+  | 'no_union_match'
+  | 'literal_mismatch'
+  | 'invalid_enum_value'
+  | 'invalid_discriminator'
+  | 'unrecognized_keys'
+  | 'invalid_format'
+  | 'migration_failed'
+  | 'too_small'
+  | 'too_big'
+  | 'invalid_string'
+  | 'not_integer'
+  | 'not_finite'
+  | 'not_multiple_of'
+  | 'not_unique'
+  | 'unresolved_reference'
+  | 'reserved_key'
+  | 'unsupported_cycle'
+  | 'invalid_intersection'
+  | 'invalid_patch'
+  | 'custom'
+  | 'multiple_issues'
+
+/** Machine-readable description of a transformation issue */
+export interface IssueDetails {
+  code: IssueCode
+  direction?: Direction
+  expected?: string
+  received?: string
+  /** human-readable message; when omitted, one is produced by the active formatter */
+  message?: string
+  /** additional values specific to the issue code */
+  params?: Record<string, any>
+}
+
+/** An issue along with the path at which it was raised */
+export interface Issue extends IssueDetails {
+  path: PathSegment[]
+}
+
+/** Produces a human-readable message for an issue, e.g. to localize it */
+export type ErrorFormatter = (issue: Issue) => string
+
+/**
+ * Gathers errors raised by the children of a container element,
+ * so that every failing child is reported rather than only the first
+ */
+export interface IssueCollector<T extends ToStringable = DefaultStackType> {
+  attempt: <R>(step: () => R) => R | undefined
+  add: (error: TransformationError<T>) => void
+  issues: TransformationError<T>[]
+  throwIfAny: (stack: Stack<T>) => void
 }
 
+/** Outcome of a non-throwing transformation or restoration */
+export type SafeResult<T, S extends ToStringable = DefaultStackType> =
+  | { success: true, data: T }
+  | { success: false, issues: TransformationError<S>[] }
+
 /** Configure your desired serialization and deserialization functions */
 export interface SerializationConfig<TUnserialized extends Literal = Literal, TSerialized = string>
 {
   serializer: (lit: TUnserialized) => TSerialized
   deserializer: (json: TSerialized) => TUnserialized
+  /** media type of the serialized form, e.g. `application/json` */
+  mediaType?: string
 }
 
 type DeepUnwrap<T> = 
@@ -46,3 +227,93 @@ export type Unwrap<T> =
   T extends Bound<infer U, any>
     ? DeepUnwrap<U>
     : T
+
+/** The runtime (source) type a schema binds, e.g. `Infer<typeof schema>` */
+export type Infer<B> = B extends Bound<infer T, any> ? T : never
+
+/** The serialized (target) type a schema binds, e.g. `Serialized<typeof schema>` */
+export type Serialized<B> = B extends Bound<any, infer U> ? U : never
+
+/** A Bound marked optional, so that object keys using it become `?:` properties */
+export type Optional<T, L> = Bound<T | undefined, L | undefined> & { attributes: { optional: true } }
+
+/** A Bound whose serialized value may be missing, in which case a default is restored */
+export type Defaulted<T, L> = Bound<T, L | undefined> & { attributes: { optional: true, defaulted: true } }
+
+/** The structure passed to `object`: a schema per key */
+export type Shape = { [key: string]: Bound<any, any> }
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { attributes: { optional: true } } ? K : never
+}[keyof S]
+
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>
+
+/** keys that may be missing on the wire, but are always present once restored */
+type DefaultedKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { attributes: { defaulted: true } } ? K : never
+}[keyof S]
+
+type Delimited<K extends string, D extends string> =
+  K extends `${infer H}${infer T}`
+    ? `${H extends Lowercase<H> ? H : `${D}${Lowercase<H>}`}${Delimited<T, D>}`
+    : K
+
+/** The wire form of a runtime key under a naming strategy */
+export type WireKey<K extends string, N extends NamingStrategy = 'camel'> =
+  N extends 'camel' ? K
+  : N extends 'snake' ? Delimited<K, '_'>
+  : N extends 'kebab' ? Delimited<K, '-'>
+  : N extends 'pascal' ? Capitalize<K>
+  : string
+
+/** The wire key of a field in a shape, honoring `field` aliases */
+type FieldKey<S extends Shape, K extends keyof S, N extends NamingStrategy> =
+  K extends keyof S
+    ? S[K] extends { attributes: { wireKey: infer W extends string } } ? W : WireKey<K & string, N>
+    : never
+
+/** flatten an intersection into a single object type, for readability */
+export type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+/** The runtime type of an object with the given shape */
+export type InferShape<S extends Shape> = Simplify<
+  { [K in RequiredKeys<S> | DefaultedKeys<S>]: Infer<S[K]> }
+  & { [K in Exclude<OptionalKeys<S>, DefaultedKeys<S>>]?: Infer<S[K]> }
+>
+
+/** The serialized type of an object with the given shape, keyed by wire keys */
+export type SerializedShape<S extends Shape, N extends NamingStrategy = 'camel'> = Simplify<
+  { [K in RequiredKeys<S> as FieldKey<S, K, N>]: Serialized<S[K]> }
+  & { [K in OptionalKeys<S> as FieldKey<S, K, N>]?: Serialized<S[K]> }
+>
+
+/**
+ * An `object` Bound that remembers its shape and naming strategy, so that other schemas can be derived from it.
+ * `~shape` only exists at the type level, and is never set at runtime.
+ */
+export type ObjectBound<S extends Shape, N extends NamingStrategy = 'camel'> =
+  Bound<InferShape<S>, SerializedShape<S, N>> & { readonly '~shape'?: [S, N] }
+
+/** a shape whose fields all carry their wire key, so that shapes named differently can be combined */
+export type ResolvedShape<S extends Shape, N extends NamingStrategy> = {
+  [K in keyof S]: S[K] & { attributes: { wireKey: FieldKey<S, K, N> } }
+}
+
+/** the Bound `R` derived from the field `B`, keeping the wire key `B` was given with `field` */
+type KeepWireKey<B, R> = B extends { attributes: { wireKey: infer W extends string } } ? R & { attributes: { wireKey: W } } : R
+
+/** a shape whose fields are all optional */
+export type PartialShape<S extends Shape> = {
+  [K in keyof S]: KeepWireKey<S[K], Optional<Infer<S[K]>, Serialized<S[K]>>>
+}
+
+/** a shape whose fields, and those of the objects nested within it, are all optional */
+export type DeepPartialShape<S extends Shape> = PartialShape<{
+  [K in keyof S]: S[K] extends ObjectBound<infer Nested, infer N> ? KeepWireKey<S[K], ObjectBound<DeepPartialShape<Nested>, N>> : S[K]
+}>
+
+/** a shape whose fields are all required, without defaults */
+export type RequiredShape<S extends Shape> = {
+  [K in keyof S]: KeepWireKey<S[K], Bound<Exclude<Infer<S[K]>, undefined>, Exclude<Serialized<S[K]>, undefined>>>
+}
@@ -0,0 +1,86 @@
+import { wireKeys } from "./naming"
+import { reflect } from "./reflection"
+import { Bound, Direction, PathSegment, SchemaKind } from "./types"
+
+/** set a key on an object as its own property, even one such as `__proto__` */
+export function define(record: Record<string, any>, key: string, value: any) {
+  Object.defineProperty(record, key, { value, enumerable: true, writable: true, configurable: true })
+}
+
+/** entries of an object, leaving out undefined values the way JSON does */
+export function definedEntries(value: object): Array<[string, any]> {
+  return Object.entries(value).filter(([, v]) => v !== undefined)
+}
+
+/**
+ * the Bound actually describing a value, past the wrappers that don't change its structure.
+ * Wrappers of the `kept` kinds are stopped at, e.g. `sensitive` ones when they matter
+ */
+export function unwrap(bound: Bound<any, any>, kept: SchemaKind[] = []): Bound<any, any> {
+  const node = reflect(bound)
+  if (kept.includes(node.kind)) {
+    return bound
+  }
+
+  switch (node.kind) {
+    case 'optional':
+    case 'nullable':
+    case 'withDefault':
+    case 'refined':
+    case 'sensitive':
+      return unwrap(node.inner, kept)
+    case 'lazy':
+      return unwrap(node.schema(), kept)
+    default:
+      return bound
+  }
+}
+
+/**
+ * the Bound describing a child of a value, if it's known. Keys are those of serialized values (`restore`),
+ * or of runtime ones (`transform`), which differ for objects with a naming strategy
+ */
+export function childOf(
+  bound: Bound<any, any> | undefined,
+  key: PathSegment,
+  parent: any,
+  direction: Direction = 'restore'
+): Bound<any, any> | undefined {
+  if (bound === undefined) {
+    return undefined
+  }
+
+  const node = reflect(unwrap(bound))
+  switch (node.kind) {
+    case 'object': {
+      const keys = wireKeys(node.shape, node.naming)
+      const field = Object.keys(keys).find(k => (direction === 'transform' ? k : keys[k]) === String(key))
+      if (field !== undefined) {
+        return node.shape[field]
+      }
+
+      return typeof node.unknownKeys === 'object' ? node.unknownKeys.catchall : undefined
+    }
+    case 'extend':
+      return childOf(node.base, key, parent, direction) ?? childOf(node.extension, key, parent, direction)
+    case 'intersection':
+      return childOf(node.left, key, parent, direction) ?? childOf(node.right, key, parent, direction)
+    case 'class':
+      return childOf(node.schema, key, parent, direction)
+    case 'array':
+    case 'set':
+      return node.item
+    case 'tuple':
+      return node.items[Number(key)] ?? node.rest
+    case 'record':
+      return node.value
+    case 'map':
+      return node.format === 'record' ? node.value : undefined
+    case 'discriminatedUnion':
+      return childOf(node.branches[parent?.[node.key]], key, parent, direction)
+    case 'versioned':
+      return childOf(node.schemas[parent?.[node.key]], key, parent, direction)
+    default:
+      return undefined
+  }
+}
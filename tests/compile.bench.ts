@@ -0,0 +1,42 @@
+import * as _ from '../src'
+import { bench, describe } from 'vitest'
+
+const item = _.object({
+  id: _.number(),
+  name: _.string(),
+  tags: _.array(_.string()),
+  position: _.object({ x: _.number(), y: _.number(), z: _.nullable(_.number()) })
+})
+
+const entitySchema = _.record(_.string(), _.union(
+  _.when((v: any) => v.kind === 'item', _.object({ kind: _.literal('item'), item })),
+  _.when((v: any) => v.kind === 'group', _.object({ kind: _.literal('group'), items: _.array(item) }))
+))
+
+const compiled = _.compile(entitySchema)
+
+const entities = Object.fromEntries(Array.from({ length: 1000 }, (_, i) => [`entity${i}`, i % 2 === 0
+  ? { kind: 'item', item: { id: i, name: `item ${i}`, tags: ['a', 'b'], position: { x: i, y: -i, z: null } } }
+  : { kind: 'group', items: [{ id: i, name: `item ${i}`, tags: [], position: { x: 0, y: 0, z: i } }] }
+]))
+const json = entitySchema.transform(entities as any)
+
+describe('transform 1000 entities', () => {
+  bench('interpreted', () => {
+    entitySchema.transform(entities as any)
+  })
+
+  bench('compiled', () => {
+    compiled.transform(entities as any)
+  })
+})
+
+describe('restore 1000 entities', () => {
+  bench('interpreted', () => {
+    entitySchema.restore(json)
+  })
+
+  bench('compiled', () => {
+    compiled.restore(json)
+  })
+})
@@ -1,6 +1,6 @@
 import * as _ from '../src'
 import { Unwrap } from '../src'
-import { test, expect, describe } from 'vitest'
+import { test, expect, describe, expectTypeOf, vi } from 'vitest'
 
 type FilterConfig = {
   filterData: string
@@ -305,4 +305,1998 @@ test('extension', () => {
   expect(restored).toBeTypeOf('object')
   expect(restored.howdy).toBe('pardner')
   expect(restored.pardner).toBe('howdy')
-})
\ No newline at end of file
+})
+describe('safe', () => {
+  const schema = _.object({
+    name: _.string(),
+    tags: _.array(_.string()),
+    scores: _.record(_.string(), _.number())
+  })
+
+  test('success', () => {
+    const test = { name: 'howdy', tags: ['a'], scores: { a: 1 } }
+
+    expect(_.safeTransform(schema, test)).toStrictEqual({ success: true, data: test })
+    expect(_.safeRestore(schema, test)).toStrictEqual({ success: true, data: test })
+  })
+
+  test('collects every issue', () => {
+    const result = _.safeRestore(schema, { tags: ['a', 1, 2], scores: { a: 'x', b: 2 } })
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+
+    expect(result.issues).toHaveLength(4)
+    expect(result.issues.map(e => e.location)).toStrictEqual([
+      `object:restore['name'](!!)`,
+      `object:restore['tags'] -> array:restore[1] -> string(!!)`,
+      `object:restore['tags'] -> array:restore[2] -> string(!!)`,
+      `object:restore['scores'] -> record:restore[value of 'a'] -> number(!!)`
+    ])
+  })
+
+  test('throwing api reports all issues at once', () => {
+    try {
+      _.array(_.number()).restore([1, 'a', 'b'])
+      expect.unreachable()
+    } catch (e) {
+      expect(e).toBeInstanceOf(_.TransformationError)
+      expect((e as _.TransformationError).issues).toHaveLength(2)
+    }
+  })
+
+  test('single issue is thrown as-is', () => {
+    try {
+      _.array(_.number()).restore([1, 'a'])
+      expect.unreachable()
+    } catch (e) {
+      expect((e as _.TransformationError).issues).toHaveLength(0)
+      expect((e as _.TransformationError).location).toBe('array:restore[1] -> number(!!)')
+    }
+  })
+
+  test('values of the wrong type are reported rather than thrown', () => {
+    const codes = (result: _.SafeResult<any>) => result.success ? [] : result.issues.map(e => [e.code, e.direction])
+
+    expect(codes(_.safeRestore(schema, { name: 'a', tags: null, scores: 'abc' }))).toStrictEqual([
+      ['invalid_type', 'restore'],
+      ['invalid_type', 'restore']
+    ])
+    expect(codes(_.safeTransform(schema, { name: 'a', tags: null, scores: null } as any))).toStrictEqual([
+      ['invalid_type', 'transform'],
+      ['invalid_type', 'transform']
+    ])
+    expect(codes(_.safeRestore(_.document(schema), '{"name": '))).toStrictEqual([['invalid_format', 'restore']])
+    expect(codes(_.safeTransform(_.document(_.any()), 1n))).toStrictEqual([['custom', 'transform']])
+  })
+})
+
+describe('errors', () => {
+  const schema = _.object({
+    a: _.array(_.object({ b: _.number() }))
+  })
+
+  test('is a real error with a structured path', () => {
+    try {
+      schema.restore({ a: [{ b: 1 }, { b: 'two' }] })
+      expect.unreachable()
+    } catch (e) {
+      expect(e).toBeInstanceOf(Error)
+      expect(e).toBeInstanceOf(_.TransformationError)
+
+      const error = e as _.TransformationError
+      expect(error.stack).toBeTypeOf('string')
+      expect(error.path).toStrictEqual(['a', 1, 'b'])
+      expect(error.pointer).toBe('/a/1/b')
+      expect(error.code).toBe('invalid_type')
+      expect(error.expected).toBe('number')
+      expect(error.received).toBe('string')
+      expect(error.direction).toBe('restore')
+      expect(error.offender).toBe('two')
+      expect(error.message).toBe(`expected 'number', received 'string'`)
+      expect(error.toString()).toBe(`TransformationError [invalid_type] at /a/1/b: expected 'number', received 'string'`)
+    }
+  })
+
+  test('codes', () => {
+    const codes = (schema: _.Bound<any>, json: any) => {
+      const result = _.safeRestore(schema, json)
+      return result.success ? [] : result.issues.map(e => e.code)
+    }
+
+    expect(codes(_.object({ a: _.string() }), {})).toStrictEqual(['missing_key'])
+    expect(codes(_.literal('x'), 'y')).toStrictEqual(['literal_mismatch'])
+    expect(codes(_.union(() => false), 1)).toStrictEqual(['no_union_match'])
+    expect(codes(_.validated(v => v === 1, () => 'not one'), 2)).toStrictEqual(['custom'])
+  })
+
+  test('validated reports the offending value', () => {
+    const result = _.safeRestore(_.validated(v => v === 1, v => `${v} is not one`), 2)
+    expect(result.success).toBe(false)
+    if (result.success) return
+
+    expect(result.issues[0].message).toBe('2 is not one')
+    expect(result.issues[0].offender).toBe(2)
+  })
+
+  test('pointer escaping', () => {
+    const result = _.safeRestore(_.record(_.string(), _.number()), { 'a/b~c': 'x' })
+    expect(result.success).toBe(false)
+    if (result.success) return
+
+    expect(result.issues[0].pointer).toBe('/a~1b~0c')
+  })
+
+  test('custom formatter', () => {
+    const formatter: _.ErrorFormatter = issue => issue.code === 'missing_key'
+      ? `clé manquante : ${issue.params?.key}`
+      : _.DefaultErrorFormatter(issue)
+
+    const result = _.safeRestore(_.object({ a: _.string() }), {})
+    expect(result.success).toBe(false)
+    if (result.success) return
+
+    expect(result.issues[0].format(formatter)).toBe('clé manquante : a')
+
+    _.SetDefaultErrorFormatter(formatter)
+    try {
+      expect(() => _.object({ a: _.string() }).restore({})).toThrow('clé manquante : a')
+    } finally {
+      _.SetDefaultErrorFormatter()
+    }
+  })
+})
+
+describe('reflection', () => {
+  test('kinds', () => {
+    expect(_.reflect(_.string()).kind).toBe('string')
+    expect(_.reflect(_.nil()).kind).toBe('null')
+    expect(_.reflect(_.literal('x'))).toStrictEqual({ kind: 'literal', value: 'x' })
+    expect(_.reflect(entitySchema).kind).toBe('record')
+    expect(_.reflect(entityDocumentSchema).kind).toBe('document')
+    expect(_.reflect(_.optional(_.string())).kind).toBe('optional')
+    expect(_.reflect({ transform: v => v, restore: v => v }).kind).toBe('custom')
+  })
+
+  test('children', () => {
+    const item = _.object({ a: _.string() })
+    const node = _.reflect(_.array(item))
+    expect(node.kind === 'array' && node.item).toBe(item)
+
+    const one = _.object({ Type: _.literal('One') })
+    const union = _.union(_.when((v: any) => v.Type === 'One', one), v => false)
+    expect(_.children(union)).toStrictEqual([[0, one]])
+  })
+
+  test('walk', () => {
+    const visited: string[] = []
+    _.walk(oneConfigSchema, (bound, node, path) => {
+      visited.push(`${path.join('.')}:${node.kind}`)
+    })
+
+    expect(visited).toStrictEqual([
+      ':object',
+      'metaConfig:string',
+      'remote:array',
+      'remote.item:object',
+      'remote.item.filters:document',
+      'remote.item.filters.schema:object',
+      'remote.item.filters.schema.filterData:string'
+    ])
+  })
+
+  test('visit', () => {
+    const describe = (bound: _.Bound<any, any>): string => _.visit(bound, {
+      object: node => `{ ${Object.entries(node.shape).map(([k, v]) => `${k}: ${describe(v)}`).join(', ')} }`,
+      array: node => `${describe(node.item)}[]`,
+      default: node => node.kind
+    })
+
+    expect(describe(filterSchema)).toBe('{ filterData: string }')
+    expect(describe(_.array(_.number()))).toBe('number[]')
+  })
+
+  test('meta', () => {
+    const schema = _.withMeta(_.string(), { description: 'a name' })
+    expect(_.reflect(schema)).toStrictEqual({ kind: 'string', meta: { description: 'a name' } })
+    expect(schema.restore('howdy')).toBe('howdy')
+  })
+})
+
+describe('json schema', () => {
+  test('export', () => {
+    const schema = _.object({
+      name: _.withMeta(_.string(), { description: 'display name' }),
+      nickname: _.optional(_.string()),
+      parent: _.nullable(_.number()),
+      tags: _.array(_.literal('a')),
+      scores: _.record(_.string(), _.boolean()),
+      config: _.document(filterSchema)
+    })
+
+    expect(_.toJsonSchema(schema)).toStrictEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'display name' },
+        nickname: { type: 'string' },
+        parent: { anyOf: [{ type: 'number' }, { type: 'null' }] },
+        tags: { type: 'array', items: { const: 'a' } },
+        scores: { type: 'object', additionalProperties: { type: 'boolean' } },
+        config: {
+          type: 'string',
+          contentMediaType: 'application/json',
+          contentSchema: { type: 'object', properties: { filterData: { type: 'string' } }, required: ['filterData'] }
+        }
+      },
+      required: ['name', 'parent', 'tags', 'scores', 'config']
+    })
+  })
+
+  test('export extension and unions', () => {
+    const extended = _.extendObject(_.object({ a: _.string() }), _.object({ b: _.optional(_.number()) }))
+    expect(_.toJsonSchema(extended)).toMatchObject({
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: 'number' } },
+      required: ['a']
+    })
+
+    const union = _.union(_.when(v => typeof v === 'string', _.string()), _.when(v => v === null, _.nil()))
+    expect(_.toJsonSchema(union)).toMatchObject({ anyOf: [{ type: 'string' }, { type: 'null' }] })
+
+    // opaque discriminators can't be described
+    expect(_.toJsonSchema(anyComponentSchema)).toStrictEqual({ $schema: 'https://json-schema.org/draft/2020-12/schema' })
+  })
+
+  test('import', () => {
+    const schema = _.fromJsonSchema({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        name: { type: ['string', 'null'] },
+        kind: { enum: ['a', 'b'] },
+        tags: { type: 'array', items: { $ref: '#/$defs/tag' } },
+        config: { type: 'string', contentMediaType: 'application/json', contentSchema: { type: 'object', properties: { x: { type: 'number' } }, required: ['x'] } }
+      },
+      required: ['id', 'kind'],
+      $defs: { tag: { type: 'string' } }
+    })
+
+    const restored = schema.restore({ id: 1, name: null, kind: 'b', tags: ['x'], config: '{"x":1}' })
+    expect(restored).toStrictEqual({ id: 1, name: null, kind: 'b', tags: ['x'], config: { x: 1 } })
+    expect(schema.restore({ id: 2, kind: 'a' })).toStrictEqual({ id: 2, kind: 'a', name: undefined, tags: undefined, config: undefined })
+
+    const result = _.safeRestore(schema, { id: 1.5, kind: 'c', tags: [1] })
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.issues.map(e => e.pointer)).toStrictEqual(['/id', '/kind', '/tags/0'])
+  })
+
+  test('round trip through json schema', () => {
+    const exported = _.toJsonSchema(oneConfigSchema)
+    const imported = _.fromJsonSchema(exported)
+    expect(_.toJsonSchema(imported)).toStrictEqual(exported)
+  })
+
+  test('import validation keywords as constraints', () => {
+    const exported = _.toJsonSchema(_.object({
+      code: _.pattern(_.maxLength(_.minLength(_.string(), 2), 4), /^[A-Z]+$/),
+      contact: _.email(_.string()),
+      count: _.multipleOf(_.max(_.min(_.integer(_.number()), 0), 100), 5),
+      tags: _.unique(_.maxLength(_.minLength(_.array(_.string()), 1), 3))
+    }))
+    const imported = _.fromJsonSchema(exported)
+    expect(_.toJsonSchema(imported)).toStrictEqual(exported)
+
+    const value = { code: 'AB', contact: 'ann@example.com', count: 15, tags: ['a'] }
+    expect(imported.restore(value)).toStrictEqual(value)
+
+    const result = _.safeRestore(imported, { code: 'abcde', contact: 'ann', count: 17.5, tags: ['a', 'a'] })
+    expect(!result.success && result.issues.map(e => [e.pointer, e.code])).toStrictEqual([
+      ['/code', 'too_big'],
+      ['/contact', 'invalid_string'],
+      ['/count', 'not_integer'],
+      ['/tags/1', 'not_unique']
+    ])
+  })
+
+  test('allOf of other types than objects', () => {
+    const exported = _.toJsonSchema(_.minLength(_.minLength(_.string(), 2), 3))
+    const imported = _.fromJsonSchema(exported)
+    expect(_.toJsonSchema(imported)).toStrictEqual(exported)
+    expect(imported.transform('abc')).toBe('abc')
+    expect(_.safeRestore(imported, 'ab').success).toBe(false)
+
+    const keywords = _.fromJsonSchema({ allOf: [{ type: 'string' }, { maxLength: 2 }] })
+    expect(keywords.restore('ab')).toBe('ab')
+    expect(() => keywords.restore('abcd')).toThrow(_.TransformationError)
+    expect(() => keywords.restore(12)).toThrow(`expected 'string', received 'number'`)
+  })
+
+  test('binary documents are not described', () => {
+    const payload = _.object({ x: _.number() })
+    for (const [config, mediaType] of [[_.MessagePackSerializationConfig, 'application/msgpack'], [_.CborSerializationConfig, 'application/cbor']] as const) {
+      expect(() => _.toJsonSchema(_.object({ packed: _.document(payload, config) })))
+        .toThrow(`Binary documents can't be described as JSON Schema, got one of media type '${mediaType}'`)
+    }
+
+    expect(_.toJsonSchema(_.document(payload, _.YamlSerializationConfig))).toMatchObject({ type: 'string', contentMediaType: 'application/yaml' })
+  })
+})
+
+describe('codecs', () => {
+  test('date', () => {
+    const test = new Date('2024-05-06T07:08:09.010Z')
+
+    expect(_.date().transform(test)).toBe('2024-05-06T07:08:09.010Z')
+    expect(_.date().restore('2024-05-06T07:08:09.010Z')).toStrictEqual(test)
+    expect(_.date('epoch').transform(test)).toBe(test.getTime())
+    expect(_.date('epoch').restore(test.getTime())).toStrictEqual(test)
+
+    expect(() => _.date().restore('yesterday')).toThrow('expected an ISO 8601 date, received "yesterday"')
+    expect(() => _.date().transform(new Date('nope'))).toThrow(`expected 'Date', received 'Invalid Date'`)
+    expect(() => _.date('epoch').restore('1')).toThrow(`expected 'number', received 'string'`)
+  })
+
+  test('bigint', () => {
+    const test = 12345678901234567890n
+    expect(_.bigint().transform(test)).toBe('12345678901234567890')
+    expect(_.bigint().restore('12345678901234567890')).toBe(test)
+    expect(() => _.bigint().restore('1.5')).toThrow(_.TransformationError)
+  })
+
+  test('url and regexp', () => {
+    expect(_.url().transform(new URL('https://example.com/a?b'))).toBe('https://example.com/a?b')
+    expect(_.url().restore('https://example.com/a?b')).toStrictEqual(new URL('https://example.com/a?b'))
+    expect(() => _.url().restore('not a url')).toThrow(_.TransformationError)
+
+    expect(_.regexp().transform(/a\/b/gi)).toBe('/a\\/b/gi')
+    expect(_.regexp().restore('/a\\/b/gi')).toStrictEqual(/a\/b/gi)
+    expect(() => _.regexp().restore('/(/')).toThrow(_.TransformationError)
+  })
+
+  test('bytes', () => {
+    for (const length of [0, 1, 2, 3, 4, 5]) {
+      const test = Uint8Array.from({ length }, (_v, i) => i * 97 % 256)
+      expect(_.bytes().restore(_.bytes().transform(test))).toStrictEqual(test)
+      expect(_.bytes().transform(test)).toBe(Buffer.from(test).toString('base64'))
+      expect(_.bytes('hex').transform(test)).toBe(Buffer.from(test).toString('hex'))
+      expect(_.bytes('hex').restore(_.bytes('hex').transform(test))).toStrictEqual(test)
+    }
+
+    expect(() => _.bytes().restore('abc')).toThrow(_.TransformationError)
+    expect(() => _.bytes('hex').restore('abc')).toThrow(_.TransformationError)
+  })
+
+  test('map and set', () => {
+    const test = new Map([[1n, new Date(0)], [2n, new Date(1000)]])
+    const entries = _.map(_.bigint(), _.date())
+    const asRecord = _.map(_.bigint(), _.date(), 'record')
+
+    expect(entries.transform(test)).toStrictEqual([['1', '1970-01-01T00:00:00.000Z'], ['2', '1970-01-01T00:00:01.000Z']])
+    expect(entries.restore(entries.transform(test))).toStrictEqual(test)
+    expect(asRecord.transform(test)).toStrictEqual({ '1': '1970-01-01T00:00:00.000Z', '2': '1970-01-01T00:00:01.000Z' })
+    expect(asRecord.restore(asRecord.transform(test))).toStrictEqual(test)
+
+    expect(() => _.map(_.number(), _.string(), 'record').transform(new Map([[1, 'a']]))).toThrow(_.TransformationError)
+
+    const tags = _.set(_.string())
+    expect(tags.transform(new Set(['a', 'b']))).toStrictEqual(['a', 'b'])
+    expect(tags.restore(['a', 'b', 'a'])).toStrictEqual(new Set(['a', 'b']))
+  })
+
+  test('composable', () => {
+    const schema = _.object({
+      created: _.date(),
+      ids: _.set(_.bigint()),
+      links: _.record(_.string(), _.url())
+    })
+
+    const test = { created: new Date(0), ids: new Set([1n]), links: { home: new URL('https://example.com/') } }
+    const transformed = schema.transform(test)
+    expect(transformed).toStrictEqual({ created: '1970-01-01T00:00:00.000Z', ids: ['1'], links: { home: 'https://example.com/' } })
+    expect(schema.restore(transformed)).toStrictEqual(test)
+
+    const result = _.safeRestore(schema, { created: 'x', ids: ['1', 'y'], links: { home: 'z' } })
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.issues.map(e => [e.pointer, e.code])).toStrictEqual([
+      ['/created', 'invalid_format'],
+      ['/ids/1', 'invalid_format'],
+      ['/links/home', 'invalid_format']
+    ])
+  })
+})
+
+describe('classes', () => {
+  class Animal {
+    #secret = 'hidden'
+    constructor(public name: string, public age?: number) {}
+    get label() { return `${this.name} (${this.age ?? '?'})` }
+    speak() { return `${this.name} makes a sound` }
+    secret() { return this.#secret }
+  }
+
+  class Dog extends Animal {
+    breed: string = 'unknown'
+    speak() { return `${this.name} barks` }
+  }
+
+  const animalSchema = _.classOf(Animal, { name: _.string(), age: _.optional(_.number()) })
+
+  test('restores real instances', () => {
+    const transformed = animalSchema.transform(new Animal('rex', 3))
+    expect(transformed).toStrictEqual({ name: 'rex', age: 3 })
+
+    const restored = animalSchema.restore(transformed)
+    expect(restored).toBeInstanceOf(Animal)
+    expect(restored.speak()).toBe('rex makes a sound')
+    expect(restored.label).toBe('rex (3)')
+  })
+
+  test('factory', () => {
+    const schema = _.classOf(Animal, { name: _.string() }, { factory: f => new Animal(f.name) })
+    const restored = schema.restore({ name: 'rex' })
+    expect(restored).toBeInstanceOf(Animal)
+    expect(restored.secret()).toBe('hidden')
+  })
+
+  test('rejects other values', () => {
+    expect(() => animalSchema.transform({ name: 'rex' } as Animal)).toThrow(`expected 'Animal', received 'Object'`)
+  })
+
+  test('inheritance', () => {
+    const dogSchema = _.extendObject(animalSchema, _.classOf(Dog, { breed: _.string() }))
+
+    const dog = new Dog('fido')
+    dog.breed = 'corgi'
+
+    const transformed = dogSchema.transform(dog)
+    expect(transformed).toStrictEqual({ name: 'fido', age: undefined, breed: 'corgi' })
+
+    const restored = dogSchema.restore({ name: 'fido', breed: 'corgi' })
+    expect(restored).toBeInstanceOf(Dog)
+    expect(restored.speak()).toBe('fido barks')
+    expect(restored.breed).toBe('corgi')
+  })
+
+  test('in a document', () => {
+    const schema = _.document(_.array(animalSchema))
+    const restored = schema.restore(schema.transform([new Animal('a'), new Animal('b', 2)]))
+    expect(restored.map(a => a.label)).toStrictEqual(['a (?)', 'b (2)'])
+  })
+})
+
+describe('discriminated union', () => {
+  const schema = _.discriminatedUnion('Type', {
+    One: oneComponentSchema,
+    Two: twoComponentSchema
+  })
+
+  test('round trips', () => {
+    const restored = _.record(_.string(), schema).restore(testEntity)
+    expect(restored).toStrictEqual(_.record(_.string(), anyComponentSchema).restore(testEntity))
+    expect(_.record(_.string(), schema).restore(_.record(_.string(), schema).transform(restored))).toStrictEqual(restored)
+  })
+
+  test('selects the branch from the tag on each side', () => {
+    const dated = _.discriminatedUnion('kind', {
+      at: _.object({ kind: _.literal('at'), when: _.date() }),
+      never: _.object({ kind: _.literal('never') })
+    })
+
+    const test = { kind: 'at' as const, when: new Date(0) }
+    expect(dated.transform(test)).toStrictEqual({ kind: 'at', when: '1970-01-01T00:00:00.000Z' })
+    expect(dated.restore({ kind: 'at', when: '1970-01-01T00:00:00.000Z' })).toStrictEqual(test)
+  })
+
+  test('reads tags under their wire key and as serialized', () => {
+    const upper = _.codec({ name: 'upper', encode: (v: string) => v.toUpperCase(), decode: (v: string) => v.toLowerCase() })
+    const events = _.discriminatedUnion('kind', {
+      opened: _.object({ kind: _.literal('opened'), openedAt: _.date() }, { naming: 'pascal' }),
+      closed: _.object({ kind: _.field('type', _.literal('closed')), reason: _.string() }),
+      moved: _.object({ kind: _.pipe(_.literal('moved'), upper), to: _.string() })
+    })
+
+    const values = [
+      { kind: 'opened' as const, openedAt: new Date(0) },
+      { kind: 'closed' as const, reason: 'done' },
+      { kind: 'moved' as const, to: 'elsewhere' }
+    ]
+    const json = values.map(v => events.transform(v))
+    expect(json).toStrictEqual([
+      { Kind: 'opened', OpenedAt: '1970-01-01T00:00:00.000Z' },
+      { type: 'closed', reason: 'done' },
+      { kind: 'MOVED', to: 'elsewhere' }
+    ])
+    expect(json.map(j => events.restore(j))).toStrictEqual(values)
+
+    const result = _.safeRestore(events, { type: 'opened' })
+    expect(!result.success && result.issues[0].message).toBe(`Unknown discriminator 'kind' value "opened", expected one of "opened" | "closed" | "moved"`)
+  })
+
+  test('reports unknown tags', () => {
+    const result = _.safeRestore(schema, { Type: 'Three' })
+    expect(result.success).toBe(false)
+    if (result.success) return
+
+    expect(result.issues[0].code).toBe('invalid_discriminator')
+    expect(result.issues[0].pointer).toBe('/Type')
+    expect(result.issues[0].message).toBe(`Unknown discriminator 'Type' value "Three", expected one of "One" | "Two"`)
+
+    expect(() => schema.restore({})).toThrow(`Missing discriminator 'Type', expected one of "One" | "Two"`)
+  })
+
+  test('fallback', () => {
+    const shapes = _.discriminatedUnion('type', {
+      circle: _.object({ type: _.literal('circle'), radius: _.number() }),
+      square: _.object({ side: _.number() })
+    }, { fallback: true })
+
+    expect(shapes.restore({ side: 2 })).toStrictEqual({ side: 2 })
+
+    const result = _.safeRestore(shapes, { radius: 'big' })
+    expect(result.success).toBe(false)
+    if (result.success) return
+
+    expect(result.issues).toHaveLength(1)
+    expect(result.issues[0].code).toBe('no_union_match')
+    expect(result.issues[0].message).toBe(
+      `No union branch matched ('circle': /type Missing required object key 'type', /radius expected 'number', received 'string'; 'square': /side Missing required object key 'side')`
+    )
+  })
+
+  test('reflection', () => {
+    expect(_.children(schema)).toStrictEqual([['One', oneComponentSchema], ['Two', twoComponentSchema]])
+  })
+})
+
+describe('inference', () => {
+  const componentSchema = _.object({
+    Type: _.literal('One'),
+    Config: _.document(_.object({ created: _.date(), tags: _.array(_.string()) })),
+    Note: _.optional(_.string()),
+    Parent: _.nullable(_.bigint())
+  })
+
+  test('object', () => {
+    expectTypeOf<_.Infer<typeof componentSchema>>().toEqualTypeOf<{
+      Type: 'One',
+      Config: { created: Date, tags: string[] },
+      Note?: string | undefined,
+      Parent: bigint | null
+    }>()
+
+    expectTypeOf<_.Serialized<typeof componentSchema>>().toEqualTypeOf<{
+      Type: 'One',
+      Config: string,
+      Note?: string | undefined,
+      Parent: string | null
+    }>()
+
+    const test: _.Infer<typeof componentSchema> = {
+      Type: 'One',
+      Config: { created: new Date(0), tags: ['a'] },
+      Parent: 1n
+    }
+    const transformed: _.Serialized<typeof componentSchema> = componentSchema.transform(test)
+    expect(componentSchema.restore(transformed)).toStrictEqual({ ...test, Note: undefined })
+  })
+
+  test('containers', () => {
+    const schema = _.record(_.string(), _.array(_.map(_.string(), _.set(_.number()))))
+
+    expectTypeOf<_.Infer<typeof schema>>().toEqualTypeOf<Record<string, Map<string, Set<number>>[]>>()
+    expectTypeOf<_.Serialized<typeof schema>>().toEqualTypeOf<Record<string, [string, number[]][][]>>()
+  })
+
+  test('unions', () => {
+    const two = _.object({ Type: _.literal('Two') })
+    const union = _.union(v => v.Type === 'One' && componentSchema, v => v.Type === 'Two' && two)
+    const tagged = _.discriminatedUnion('Type', { One: componentSchema, Two: two })
+
+    expectTypeOf<_.Infer<typeof union>>().toEqualTypeOf<_.Infer<typeof componentSchema> | { Type: 'Two' }>()
+    expectTypeOf<_.Serialized<typeof union>>().toEqualTypeOf<_.Serialized<typeof componentSchema> | { Type: 'Two' }>()
+    expectTypeOf<_.Infer<typeof tagged>>().toEqualTypeOf<_.Infer<typeof union>>()
+    expectTypeOf<_.Serialized<typeof tagged>>().toEqualTypeOf<_.Serialized<typeof union>>()
+  })
+
+  test('documents and extensions', () => {
+    const doc = _.document(componentSchema)
+    expectTypeOf<_.Infer<typeof doc>>().toEqualTypeOf<_.Infer<typeof componentSchema>>()
+    expectTypeOf<_.Serialized<typeof doc>>().toEqualTypeOf<string>()
+
+    const extended = _.extendObject(_.object({ a: _.string() }), _.object({ b: _.optional(_.number()) }))
+    expectTypeOf<_.Infer<typeof extended>>().toEqualTypeOf<{ a: string, b?: number | undefined }>()
+  })
+})
+
+describe('unknown keys', () => {
+  const shape = { a: _.string() }
+  const value = { a: 'x', b: '2', c: '3' }
+
+  test('strip', () => {
+    expect(_.object(shape).restore(value)).toStrictEqual({ a: 'x' })
+    expect(_.object(shape, { unknownKeys: 'strip' }).transform(value)).toStrictEqual({ a: 'x' })
+  })
+
+  test('strict', () => {
+    const schema = _.object(shape, { unknownKeys: 'strict' })
+    expect(schema.restore({ a: 'x' })).toStrictEqual({ a: 'x' })
+
+    const result = _.safeRestore(schema, value)
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.issues[0].code).toBe('unrecognized_keys')
+    expect(result.issues[0].message).toBe(`Unrecognized object keys 'b', 'c'`)
+
+    expect(() => schema.transform(value)).toThrow(`Unrecognized object keys 'b', 'c'`)
+  })
+
+  test('passthrough', () => {
+    const schema = _.object(shape, { unknownKeys: 'passthrough' })
+    expect(schema.restore(value)).toStrictEqual(value)
+    expect(schema.transform(value)).toStrictEqual(value)
+  })
+
+  test('catchall', () => {
+    const schema = _.object(shape, { unknownKeys: _.catchall(_.bigint()) })
+    expect(schema.restore(value)).toStrictEqual({ a: 'x', b: 2n, c: 3n })
+    expect(schema.transform({ a: 'x', b: 2n, c: 3n })).toStrictEqual(value)
+
+    const result = _.safeRestore(schema, { a: 'x', b: 'two' })
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.issues[0].pointer).toBe('/b')
+  })
+
+  test('default from the context', () => {
+    expect(_.object(shape).restore(value)).toStrictEqual({ a: 'x' })
+    expect(_.scoped(_.object(shape), { unknownKeys: 'passthrough' }).restore(value)).toStrictEqual(value)
+    expect(_.safeRestore(_.object(shape), value, { unknownKeys: 'passthrough' })).toStrictEqual({ success: true, data: value })
+    expect(_.safeRestore(_.object(shape, { unknownKeys: 'strip' }), value, { unknownKeys: 'passthrough' }))
+      .toStrictEqual({ success: true, data: { a: 'x' } })
+  })
+
+  test('extension shares known keys', () => {
+    const schema = _.extendObject(
+      _.object({ a: _.string() }, { unknownKeys: 'strict' }),
+      _.object({ b: _.string() }, { unknownKeys: 'strict' })
+    )
+
+    expect(schema.restore({ a: 'x', b: 'y' })).toStrictEqual({ a: 'x', b: 'y' })
+    expect(() => schema.restore(value)).toThrow(`Unrecognized object keys 'c'`)
+  })
+
+  test('json schema', () => {
+    expect(_.toJsonSchema(_.object(shape, { unknownKeys: 'strict' }))).toMatchObject({ additionalProperties: false })
+    expect(_.toJsonSchema(_.object(shape, { unknownKeys: _.catchall(_.number()) }))).toMatchObject({ additionalProperties: { type: 'number' } })
+
+    const imported = _.fromJsonSchema({ type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false })
+    expect(() => imported.restore(value)).toThrow(_.TransformationError)
+  })
+})
+
+describe('naming', () => {
+  test('field aliases', () => {
+    const schema = _.object({ userName: _.field('user_name', _.string()), age: _.number() })
+
+    expect(schema.transform({ userName: 'rex', age: 3 })).toStrictEqual({ user_name: 'rex', age: 3 })
+    expect(schema.restore({ user_name: 'rex', age: 3 })).toStrictEqual({ userName: 'rex', age: 3 })
+    expectTypeOf<_.Serialized<typeof schema>>().toEqualTypeOf<{ user_name: string, age: number }>()
+  })
+
+  test('strategies', () => {
+    const shape = { userName: _.string(), createdAt: _.optional(_.date()), id: _.field('ID', _.number()) }
+    const value = { userName: 'rex', createdAt: new Date(0), id: 1 }
+
+    const snake = _.object(shape, { naming: 'snake' })
+    expect(snake.transform(value)).toStrictEqual({ user_name: 'rex', created_at: '1970-01-01T00:00:00.000Z', ID: 1 })
+    expect(snake.restore(snake.transform(value))).toStrictEqual(value)
+    expectTypeOf<_.Serialized<typeof snake>>().toEqualTypeOf<{ user_name: string, created_at?: string | undefined, ID: number }>()
+
+    const kebab = _.object(shape, { naming: 'kebab' })
+    expect(Object.keys(kebab.transform(value))).toStrictEqual(['user-name', 'created-at', 'ID'])
+
+    const pascal = _.object(shape, { naming: 'pascal' })
+    expect(Object.keys(pascal.transform(value))).toStrictEqual(['UserName', 'CreatedAt', 'ID'])
+    expect(pascal.restore(pascal.transform(value))).toStrictEqual(value)
+
+    const custom = _.object(shape, { naming: { toWire: k => `x.${k}`, fromWire: k => k.slice(2) } })
+    expect(Object.keys(custom.transform(value))).toStrictEqual(['x.userName', 'x.createdAt', 'ID'])
+  })
+
+  test('error paths use the key of each side', () => {
+    const schema = _.object({ userName: _.string(), userAge: _.number() }, { naming: 'snake' })
+
+    const restored = _.safeRestore(schema, { user_name: 1 })
+    expect(restored.success).toBe(false)
+    if (restored.success) return
+    expect(restored.issues.map(e => e.pointer)).toStrictEqual(['/user_name', '/user_age'])
+    expect(restored.issues[1].message).toBe(`Missing required object key 'user_age'`)
+
+    const transformed = _.safeTransform(schema, { userName: 1 } as any)
+    expect(transformed.success).toBe(false)
+    if (transformed.success) return
+    expect(transformed.issues.map(e => e.pointer)).toStrictEqual(['/userName', '/userAge'])
+  })
+
+  test('extension', () => {
+    const schema = _.extendObject(
+      _.object({ userName: _.string() }, { naming: 'snake', unknownKeys: 'strict' }),
+      _.object({ favoriteColor: _.string() }, { naming: 'pascal', unknownKeys: 'strict' })
+    )
+
+    const value = { userName: 'rex', favoriteColor: 'red' }
+    expect(schema.transform(value)).toStrictEqual({ user_name: 'rex', FavoriteColor: 'red' })
+    expect(schema.restore({ user_name: 'rex', FavoriteColor: 'red' })).toStrictEqual(value)
+  })
+
+  test('record keys', () => {
+    const schema = _.record(_.renamed('snake'), _.number())
+    expect(schema.transform({ someKey: 1 })).toStrictEqual({ some_key: 1 })
+    expect(schema.restore({ some_key: 1 })).toStrictEqual({ someKey: 1 })
+  })
+
+  test('json schema', () => {
+    expect(_.toJsonSchema(_.object({ userName: _.string() }, { naming: 'snake' }))).toMatchObject({
+      properties: { user_name: { type: 'string' } },
+      required: ['user_name']
+    })
+  })
+})
+
+describe('defaults and versions', () => {
+  test('defaults', () => {
+    const schema = _.object({ name: _.string(), tags: _.withDefault(_.array(_.string()), () => []), retries: _.withDefault(_.number(), 3) })
+
+    expect(schema.restore({ name: 'job' })).toStrictEqual({ name: 'job', tags: [], retries: 3 })
+    expect(schema.restore({ name: 'job', tags: ['a'], retries: 1 })).toStrictEqual({ name: 'job', tags: ['a'], retries: 1 })
+    expect(schema.restore({ name: 'job' }).tags).not.toBe(schema.restore({ name: 'job' }).tags)
+    expect(() => schema.restore({ name: 'job', retries: 'many' })).toThrow(_.TransformationError)
+
+    expectTypeOf<_.Infer<typeof schema>>().toEqualTypeOf<{ name: string, tags: string[], retries: number }>()
+    expectTypeOf<_.Serialized<typeof schema>>().toEqualTypeOf<{ name: string, tags?: string[] | undefined, retries?: number | undefined }>()
+
+    expect(_.toJsonSchema(schema)).toMatchObject({
+      properties: { retries: { type: 'number', default: 3 }, tags: { type: 'array' } },
+      required: ['name']
+    })
+  })
+
+  const settings = _.versioned(
+    {
+      1: _.object({ name: _.string() }),
+      2: _.object({ firstName: _.string(), lastName: _.string() }),
+      3: _.object({ firstName: _.string(), lastName: _.string(), theme: _.withDefault(_.string(), 'light') })
+    },
+    {
+      2: v1 => {
+        const [firstName, ...rest] = v1.name.split(' ')
+        if (rest.length === 0) {
+          throw new Error(`cannot split name '${v1.name}'`)
+        }
+
+        return { firstName, lastName: rest.join(' ') }
+      },
+      3: v2 => ({ ...v2, theme: 'light' })
+    }
+  )
+
+  test('versioned documents', () => {
+    const value = { firstName: 'Ada', lastName: 'Lovelace', theme: 'dark' }
+    expect(settings.transform(value)).toStrictEqual({ version: 3, ...value })
+    expect(settings.restore({ version: 3, ...value })).toStrictEqual(value)
+    expect(settings.restore({ version: 1, name: 'Ada Lovelace' } as any)).toStrictEqual({ ...value, theme: 'light' })
+    expect(settings.restore({ version: 2, firstName: 'Ada', lastName: 'Lovelace' } as any)).toStrictEqual({ ...value, theme: 'light' })
+
+    expectTypeOf<_.Infer<typeof settings>>().toEqualTypeOf<{ firstName: string, lastName: string, theme: string }>()
+    expectTypeOf<_.Serialized<typeof settings>>().toEqualTypeOf<{ firstName: string, lastName: string, theme?: string | undefined, version: 3 }>()
+
+    const stored = _.document(settings)
+    expect(stored.restore('{"version":1,"name":"Ada Lovelace"}')).toStrictEqual({ ...value, theme: 'light' })
+  })
+
+  test('version errors', () => {
+    const unknown = _.safeRestore(settings, { version: 7, name: 'Ada Lovelace' })
+    expect(unknown.success).toBe(false)
+    if (unknown.success) return
+    expect(unknown.issues[0].code).toBe('invalid_discriminator')
+    expect(unknown.issues[0].pointer).toBe('/version')
+
+    const broken = _.safeRestore(settings, { version: 1, name: 'Ada' })
+    expect(broken.success).toBe(false)
+    if (broken.success) return
+    expect(broken.issues[0].code).toBe('migration_failed')
+    expect(broken.issues[0].message).toBe(`Migration from version 1 to 2 failed: cannot split name 'Ada'`)
+
+    const unversioned = _.versioned({ 1: _.object({ a: _.string() }), 2: _.object({ b: _.string() }) }, { 2: v1 => ({ b: v1.a }) }, { key: 'v', unversioned: 1 })
+    expect(unversioned.restore({ a: 'x' } as any)).toStrictEqual({ b: 'x' })
+    expect(unversioned.transform({ b: 'x' })).toStrictEqual({ v: 2, b: 'x' })
+
+    expect(() => _.versioned({ 1: _.string(), 2: _.number() }, {} as any)).toThrow('Missing migration to version 2')
+
+    const sloppy = _.versioned({ 1: _.object({ a: _.string() }), 2: _.object({ b: _.number() }) }, { 2: v1 => ({ b: v1.a }) as any })
+    const invalid = _.safeRestore(sloppy, { version: 1, a: 'x' } as any)
+    expect(!invalid.success && invalid.issues.map(e => [e.code, e.pointer, e.message])).toStrictEqual([[
+      'migration_failed',
+      '',
+      `Migration from version 1 to 2 failed: produced an invalid value (/b expected 'number', received 'string')`
+    ]])
+  })
+})
+
+describe('binary serialization', () => {
+  const literal = {
+    name: 'rex',
+    unicode: 'ünï ✓',
+    count: 300,
+    negative: -129,
+    big: 2 ** 40,
+    ratio: 0.5,
+    flags: [true, false, null],
+    nested: { long: 'x'.repeat(300), items: Array.from({ length: 20 }, (_, i) => i) }
+  }
+
+  test('messagepack', () => {
+    const config = _.MessagePackSerializationConfig
+    expect(config.serializer({ a: 1, b: [true, null] })).toStrictEqual(new Uint8Array([0x82, 0xa1, 0x61, 0x01, 0xa1, 0x62, 0x92, 0xc3, 0xc0]))
+    expect(config.serializer(-1)).toStrictEqual(new Uint8Array([0xff]))
+    expect(config.deserializer(config.serializer(literal))).toStrictEqual(literal)
+    expect(config.deserializer(new Uint8Array([0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0, 0]))).toBe(1.5)
+  })
+
+  test('cbor', () => {
+    const config = _.CborSerializationConfig
+    expect(config.serializer({ a: 1, b: [true, null] })).toStrictEqual(new Uint8Array([0xa2, 0x61, 0x61, 0x01, 0x61, 0x62, 0x82, 0xf5, 0xf6]))
+    expect(config.serializer(-500)).toStrictEqual(new Uint8Array([0x39, 0x01, 0xf3]))
+    expect(config.deserializer(config.serializer(literal))).toStrictEqual(literal)
+
+    // half precision float, and an indefinite-length array
+    expect(config.deserializer(new Uint8Array([0xf9, 0x3e, 0x00]))).toBe(1.5)
+    expect(config.deserializer(new Uint8Array([0x9f, 0x01, 0x02, 0xff]))).toStrictEqual([1, 2])
+  })
+
+  test('nested documents', () => {
+    const inner = _.document(_.object({ created: _.date(), tags: _.array(_.string()) }), _.CborSerializationConfig)
+    const schema = _.document(_.object({ name: _.string(), meta: inner }), _.MessagePackSerializationConfig)
+    expectTypeOf<_.Serialized<typeof schema>>().toEqualTypeOf<Uint8Array>()
+
+    const value = { name: 'rex', meta: { created: new Date(0), tags: ['a', 'b'] } }
+    const transformed = schema.transform(value)
+    expect(transformed).toBeInstanceOf(Uint8Array)
+    expect(schema.restore(transformed)).toStrictEqual(value)
+  })
+
+  test('malformed input', () => {
+    const schema = _.object({ blob: _.document(_.array(_.number()), _.MessagePackSerializationConfig) })
+
+    const truncated = _.safeRestore(schema, { blob: new Uint8Array([0x93, 0x01, 0x02]) })
+    expect(truncated.success).toBe(false)
+    if (truncated.success) return
+    expect(truncated.issues[0].code).toBe('invalid_format')
+    expect(truncated.issues[0].details.params?.offset).toBe(3)
+    expect(truncated.issues[0].pointer).toBe('/blob')
+    expect(truncated.issues[0].message).toBe('expected MessagePack, received unexpected end of input at byte 3')
+
+    expect(() => _.MessagePackSerializationConfig.deserializer(new Uint8Array([0x91, 0xc1]))).toThrow('unsupported type byte 0xc1 at byte 1')
+    expect(() => _.CborSerializationConfig.deserializer(new Uint8Array([0x01, 0x02]))).toThrow('unexpected trailing bytes at byte 1')
+    expect(() => _.CborSerializationConfig.deserializer(new Uint8Array([0xa1, 0x01, 0x02]))).toThrow(`map key of type 'number' at byte 1`)
+  })
+})
+
+describe('text serialization', () => {
+  const literal = {
+    name: 'rex',
+    'odd key': 'a: b',
+    ratio: 1.5,
+    enabled: true,
+    numeric: '123',
+    tags: ['a', 'b #c'],
+    nested: { text: 'multi\nline', items: [{ id: 1 }, { id: 2, extra: [] }] }
+  }
+
+  test('yaml', () => {
+    const config = _.YamlSerializationConfig
+    expect(config.deserializer(config.serializer({ ...literal, nothing: null }))).toStrictEqual({ ...literal, nothing: null })
+    expect(config.serializer({ a: [1, { b: 'x' }] })).toBe('a:\n  - 1\n  - b: x\n')
+
+    const source = [
+      '# service settings',
+      'name: api # trailing comment',
+      'ports: [80, 443]',
+      'quoted: "tab\\there"',
+      'single: \'it\'\'s\'',
+      'script: |',
+      '  echo one',
+      '  echo two',
+      'summary: >-',
+      '  folded',
+      '  text',
+      'replicas:',
+      '- region: eu',
+      '  count: 2',
+      '- region: us',
+      '  count: ~'
+    ].join('\n')
+
+    expect(config.deserializer(source)).toStrictEqual({
+      name: 'api',
+      ports: [80, 443],
+      quoted: 'tab\there',
+      single: "it's",
+      script: 'echo one\necho two\n',
+      summary: 'folded text',
+      replicas: [{ region: 'eu', count: 2 }, { region: 'us', count: null }]
+    })
+  })
+
+  test('toml', () => {
+    const config = _.TomlSerializationConfig
+    expect(config.deserializer(config.serializer(literal))).toStrictEqual(literal)
+    expect(config.serializer({ title: 'x', owner: { name: 'y' }, items: [{ id: 1 }, { id: 2 }] }))
+      .toBe('title = "x"\n\n[owner]\nname = "y"\n\n[[items]]\nid = 1\n\n[[items]]\nid = 2\n')
+
+    const source = [
+      '# comment',
+      'title = "TOML" # trailing',
+      '[owner]',
+      "name = 'Tom'",
+      'dob = 1979-05-27 07:32:00Z',
+      '[database]',
+      'ports = [',
+      '  8000,',
+      '  8001, # trailing comma',
+      ']',
+      'limits = { cpu = 0.5, memory = 1_024 }',
+      'server.host = "localhost"',
+      '[[plugins]]',
+      'name = "a"',
+      '[[plugins]]',
+      'name = "b"'
+    ].join('\n')
+
+    expect(config.deserializer(source)).toStrictEqual({
+      title: 'TOML',
+      owner: { name: 'Tom', dob: '1979-05-27T07:32:00Z' },
+      database: { ports: [8000, 8001], limits: { cpu: 0.5, memory: 1024 }, server: { host: 'localhost' } },
+      plugins: [{ name: 'a' }, { name: 'b' }]
+    })
+  })
+
+  test('env', () => {
+    const config = _.EnvSerializationConfig
+    const value = { HOST: 'localhost', PORT: 8080, DEBUG: false, TOKEN: 'true', EMPTY: '', db: { USER: 'admin', PASSWORD: 'p@ss #1' } }
+    expect(config.serializer(value)).toBe('HOST=localhost\nPORT=8080\nDEBUG=false\nTOKEN="true"\nEMPTY=""\n\n[db]\nUSER=admin\nPASSWORD="p@ss #1"\n')
+    expect(config.deserializer(config.serializer(value))).toStrictEqual(value)
+    expect(config.deserializer('# comment\nexport NAME=some value # comment\nQUOTED="a\\nb"\nRAW=\'x#y\'\n')).toStrictEqual({
+      NAME: 'some value',
+      QUOTED: 'a\nb',
+      RAW: 'x#y'
+    })
+  })
+
+  test('parse errors carry line and column', () => {
+    const schema = _.object({ settings: _.document(_.any(), _.YamlSerializationConfig) })
+    const restored = _.safeRestore(schema, { settings: 'a: 1\nb: [1, 2' })
+    expect(restored.success).toBe(false)
+    if (restored.success) return
+    expect(restored.issues[0].code).toBe('invalid_format')
+    expect(restored.issues[0].pointer).toBe('/settings')
+    expect(restored.issues[0].details.params).toStrictEqual({ line: 2, column: 9 })
+    expect(restored.issues[0].message).toBe(`expected YAML, received expected ',' or ']' at line 2, column 9`)
+
+    expect(() => _.YamlSerializationConfig.deserializer('a: 1\n  b: 2')).toThrow('unexpected indentation at line 2, column 3')
+    expect(() => _.TomlSerializationConfig.deserializer('a = 1\na = 2')).toThrow(`key 'a' is already defined at line 2, column 1`)
+    expect(() => _.TomlSerializationConfig.deserializer('x = 1 2')).toThrow('expected a line break at line 1, column 7')
+    expect(() => _.EnvSerializationConfig.deserializer('A=1\nB')).toThrow('expected KEY=value at line 2, column 1')
+  })
+
+  test('values a format cannot represent', () => {
+    const schema = _.document(_.object({ database: _.object({ password: _.nullable(_.string()) }) }), _.TomlSerializationConfig)
+    const transformed = _.safeTransform(schema, { database: { password: null } })
+    expect(transformed.success).toBe(false)
+    if (transformed.success) return
+    expect(transformed.issues[0].pointer).toBe('/database/password')
+    expect(transformed.issues[0].message).toBe(`expected 'a value TOML can represent', received 'null'`)
+
+    expect(() => _.TomlSerializationConfig.serializer([1])).toThrow(`expected 'object', received 'array'`)
+    expect(() => _.EnvSerializationConfig.serializer({ a: { b: { c: 1 } } })).toThrow(`expected 'a string, number, boolean or null', received 'object'`)
+    expect(() => _.EnvSerializationConfig.serializer({ 'a b': 1 })).toThrow(`Key 'a b' cannot be written to a .env file`)
+  })
+})
+
+describe('transformation context', () => {
+  const settings = _.document(_.object({ name: _.string(), port: _.number() }))
+
+  test('documents use the serialization config of their context', () => {
+    const yaml = settings.transform({ name: 'api', port: 80 }, _.stack().withContext({ serialization: _.YamlSerializationConfig }))
+    expect(yaml).toBe('name: api\nport: 80\n')
+    expect(settings.restore('name: api\nport: 80\n', _.stack().withContext({ serialization: _.YamlSerializationConfig })))
+      .toStrictEqual({ name: 'api', port: 80 })
+    expect(settings.transform({ name: 'api', port: 80 })).toBe(JSON.stringify({ name: 'api', port: 80 }, null, 2))
+
+    const explicit = _.document(_.object({ port: _.number() }), _.JsonSerializationConfig)
+    expect(explicit.transform({ port: 80 }, _.stack().withContext({ serialization: _.YamlSerializationConfig }))).toBe('{"port":80}')
+  })
+
+  test('objects use the unknown key policy of their context', () => {
+    const schema = _.object({ a: _.number() })
+    const strict = _.safeRestore(schema, { a: 1, b: 2 }, { unknownKeys: 'strict' })
+    expect(strict.success).toBe(false)
+    expect(!strict.success && strict.issues[0].code).toBe('unrecognized_keys')
+    expect(_.safeRestore(schema, { a: 1, b: 2 }, { unknownKeys: 'passthrough' })).toStrictEqual({ success: true, data: { a: 1, b: 2 } })
+    expect(_.safeRestore(_.object({ a: _.number() }, { unknownKeys: 'strip' }), { a: 1, b: 2 }, { unknownKeys: 'strict' }))
+      .toStrictEqual({ success: true, data: { a: 1 } })
+  })
+
+  test('custom bounds can read data from their context', () => {
+    const price: _.Bound<number, string> = {
+      transform: (n, s = _.stack()) => n.toLocaleString(s.context.data?.locale ?? 'en-US'),
+      restore: (str) => Number(str)
+    }
+    const schema = _.object({ price })
+    expect(_.safeTransform(schema, { price: 1234.5 }, { data: { locale: 'de-DE' } })).toStrictEqual({ success: true, data: { price: '1.234,5' } })
+    expect(schema.transform({ price: 1234.5 }, _.stack().withContext({ data: { locale: 'en-US' } }).withContext({ data: { unit: 'EUR' } })))
+      .toStrictEqual({ price: '1,234.5' })
+  })
+
+  test('scoped overrides the context of a part of a schema', () => {
+    const schema = _.object({
+      name: _.string(),
+      inner: _.scoped(_.object({ a: _.number() }), { unknownKeys: 'strict' })
+    })
+    expectTypeOf<_.Infer<typeof schema>>().toEqualTypeOf<{ name: string, inner: { a: number } }>()
+    expect(_.scoped(_.optional(_.string()), {}).attributes).toStrictEqual({ optional: true })
+    expect(_.reflect(schema).kind).toBe('object')
+    expect(_.reflect((_.reflect(schema) as any).shape.inner).kind).toBe('object')
+    expect(schema.restore({ name: 'x', extra: 1, inner: { a: 1 } })).toStrictEqual({ name: 'x', inner: { a: 1 } })
+    expect(() => schema.restore({ name: 'x', inner: { a: 1, extra: 1 } })).toThrow(_.TransformationError)
+  })
+})
+
+describe('refinements and constraints', () => {
+  const codes = (schema: _.Bound<any, any>, json: any) => {
+    const result = _.safeRestore(schema, json)
+    return result.success ? [] : result.issues.map(e => [e.pointer, e.code])
+  }
+
+  test('refine keeps the types of the underlying bound', () => {
+    const even = _.refine(_.number(), n => n % 2 === 0, 'expected an even number')
+    const created = _.refine(_.date(), d => d.getFullYear() >= 2000, d => ({ code: 'custom', message: `${d.getFullYear()} is too early` }))
+    expectTypeOf(even).toEqualTypeOf<_.Bound<number, number>>()
+    expectTypeOf(created).toEqualTypeOf<_.Bound<Date, string>>()
+
+    expect(even.restore(4)).toBe(4)
+    expect(() => even.restore(3)).toThrow('expected an even number')
+    expect(() => even.restore('3' as any)).toThrow(`expected 'number', received 'string'`)
+    expect(() => even.transform(3)).toThrow('expected an even number')
+    expect(created.restore('2020-01-01T00:00:00.000Z')).toStrictEqual(new Date('2020-01-01T00:00:00.000Z'))
+    expect(() => created.restore('1999-01-01T00:00:00.000Z')).toThrow('1999 is too early')
+    expect(_.reflect(even)).toMatchObject({ kind: 'refined', check: 'refine' })
+  })
+
+  test('string constraints', () => {
+    const schema = _.object({
+      name: _.trimmed(_.maxLength(_.minLength(_.string(), 2), 5)),
+      email: _.email(_.string()),
+      id: _.uuid(_.string()),
+      code: _.pattern(_.string(), /^[A-Z]{3}$/)
+    })
+    const valid = { name: 'Ann', email: 'ann@example.com', id: '123e4567-E89B-12d3-a456-426614174000', code: 'ABC' }
+    expect(schema.restore(valid)).toStrictEqual(valid)
+    expect(codes(schema, { ...valid, name: 'A', email: 'ann@localhost', id: '123', code: 'abc' })).toStrictEqual([
+      ['/name', 'too_small'],
+      ['/email', 'invalid_string'],
+      ['/id', 'invalid_string'],
+      ['/code', 'invalid_string']
+    ])
+    expect(() => schema.restore({ ...valid, name: 'Annabel' })).toThrow('expected at most 5 characters, received 7')
+    expect(() => schema.restore({ ...valid, name: ' Ann' })).toThrow('expected a string without leading or trailing whitespace, received " Ann"')
+    expect(() => schema.restore({ ...valid, code: 'abc' })).toThrow('expected a string matching /^[A-Z]{3}$/, received "abc"')
+  })
+
+  test('number constraints', () => {
+    const schema = _.object({
+      age: _.max(_.min(_.integer(_.number()), 0), 150),
+      price: _.multipleOf(_.finite(_.number()), 0.01)
+    })
+    expect(schema.restore({ age: 30, price: 0.3 })).toStrictEqual({ age: 30, price: 0.3 })
+    expect(codes(schema, { age: 1.5, price: Infinity })).toStrictEqual([['/age', 'not_integer'], ['/price', 'not_finite']])
+    expect(codes(schema, { age: -1, price: 0.001 })).toStrictEqual([['/age', 'too_small'], ['/price', 'not_multiple_of']])
+    expect(() => schema.restore({ age: 200, price: 1 })).toThrow('expected a number less than or equal to 150, received 200')
+    expect(() => schema.transform({ age: 30, price: 0.125 })).toThrow('expected a multiple of 0.01, received 0.125')
+  })
+
+  test('array constraints report each duplicate at its own index', () => {
+    const tags = _.unique(_.maxLength(_.minLength(_.array(_.string()), 1), 4))
+    expect(tags.restore(['a', 'b'])).toStrictEqual(['a', 'b'])
+    expect(() => tags.restore([])).toThrow('expected at least 1 items, received 0')
+    expect(codes(tags, ['a', 'b', 'a', 'a'])).toStrictEqual([['/2', 'not_unique'], ['/3', 'not_unique']])
+    expect(() => tags.restore(['a', 'a'])).toThrow('Duplicate item, first seen at index 0')
+    expect(codes(tags, ['a', 'b', 'c', 'd', 'e'])).toStrictEqual([['', 'too_big']])
+
+    const users = _.unique(_.array(_.object({ id: _.number() })), user => user.id)
+    expect(codes(users, [{ id: 1 }, { id: 2 }, { id: 1 }])).toStrictEqual([['/2', 'not_unique']])
+  })
+
+  test('constraints are described in JSON Schema', () => {
+    const schema = _.object({
+      name: _.pattern(_.minLength(_.string(), 2), /^[a-z]+$/),
+      email: _.email(_.string()),
+      age: _.min(_.integer(_.number()), 0),
+      tags: _.unique(_.maxLength(_.array(_.string()), 3))
+    })
+    expect(_.toJsonSchema(schema).properties).toStrictEqual({
+      name: { type: 'string', minLength: 2, pattern: '^[a-z]+$' },
+      email: { type: 'string', format: 'email' },
+      age: { type: 'integer', minimum: 0 },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 3, uniqueItems: true }
+    })
+    expect(_.toJsonSchema(_.min(_.min(_.number(), 0), 1))).toMatchObject({
+      allOf: [{ type: 'number', minimum: 0 }, { type: 'number', minimum: 1 }]
+    })
+  })
+})
+
+describe('coercion', () => {
+  const query = _.object({
+    page: _.number(),
+    draft: _.boolean(),
+    parent: _.nullable(_.number()),
+    deleted: _.nil(),
+    tags: _.array(_.string()),
+    ids: _.array(_.number())
+  })
+
+  test('restores typed values from strings through the context', () => {
+    const json = { page: '2', draft: 'yes', parent: 'null', deleted: 'null', tags: 'a,b', ids: ['1', '2'] }
+    expect(_.safeRestore(query, json, { coerce: true })).toStrictEqual({
+      success: true,
+      data: { page: 2, draft: true, parent: null, deleted: null, tags: ['a', 'b'], ids: [1, 2] }
+    })
+    expect(_.safeRestore(query, json).success).toBe(false)
+    expect(_.safeRestore(_.array(_.number()), '', { coerce: true })).toStrictEqual({ success: true, data: [] })
+    expect(_.safeRestore(_.array(_.number()), '3', { coerce: true })).toStrictEqual({ success: true, data: [3] })
+  })
+
+  test('accepts every boolean and numeric spelling', () => {
+    const flag = _.coerce(_.boolean())
+    expect(['true', 'TRUE', '1', 'yes', 'false', '0', 'No'].map(v => flag.restore(v as any))).toStrictEqual([true, true, true, true, false, false, false])
+    const n = _.coerce(_.number())
+    expect(['42', '-1.5', ' 3 ', '.5', '1e3'].map(v => n.restore(v as any))).toStrictEqual([42, -1.5, 3, 0.5, 1000])
+    expect(n.restore(7)).toBe(7)
+  })
+
+  test('rejects garbage with a precise error', () => {
+    const result = _.safeRestore(query, { page: '2x', draft: 'maybe', parent: '', deleted: 'nil', tags: '', ids: '1,,3' }, { coerce: true })
+    expect(result.success).toBe(false)
+    if (result.success) return
+
+    expect(result.issues.map(e => [e.pointer, e.code, e.message])).toStrictEqual([
+      ['/page', 'invalid_format', 'expected a numeric string, received "2x"'],
+      ['/draft', 'invalid_format', `expected one of 'true', 'false', '1', '0', 'yes' or 'no', received "maybe"`],
+      ['/parent', 'invalid_format', 'expected a numeric string, received ""'],
+      ['/deleted', 'invalid_format', `expected 'null', received "nil"`],
+      ['/ids/1', 'invalid_format', 'expected a numeric string, received ""']
+    ])
+  })
+
+  test('coerce applies to a part of a schema, and transform stays canonical', () => {
+    const schema = _.object({ port: _.coerce(_.number()), name: _.number() })
+    expect(schema.restore({ port: '80', name: 1 })).toStrictEqual({ port: 80, name: 1 })
+    expect(() => schema.restore({ port: '80', name: '1' })).toThrow(`expected 'number', received 'string'`)
+    expect(schema.transform({ port: 80, name: 1 })).toStrictEqual({ port: 80, name: 1 })
+    expect(() => _.coerce(_.number()).transform('80' as any)).toThrow(`expected 'number', received 'string'`)
+    expect(_.reflect(_.coerce(_.number())).kind).toBe('number')
+  })
+})
+
+describe('recursive schemas and references', () => {
+  type Component = { name: string, children: Component[] }
+  const component: _.Bound<Component, { name: string, children: any[] }> = _.object({
+    name: _.string(),
+    children: _.array(_.lazy(() => component))
+  })
+
+  test('lazy expresses recursive structures', () => {
+    const tree = { name: 'root', children: [{ name: 'a', children: [] }, { name: 'b', children: [{ name: 'c', children: [] }] }] }
+    expect(component.restore(component.transform(tree))).toStrictEqual(tree)
+
+    const result = _.safeRestore(component, { name: 'root', children: [{ name: 'a', children: [{ name: 1, children: [] }] }] })
+    expect(!result.success && result.issues[0].pointer).toBe('/children/0/children/0/name')
+  })
+
+  test('recursive schemas can be walked and described', () => {
+    const paths: string[] = []
+    _.walk(component, (_bound, node, path) => { paths.push(`${path.join('.')}:${node.kind}`) })
+    expect(paths).toStrictEqual([':object', 'name:string', 'children:array', 'children.item:lazy', 'children.item.schema:object', 'children.item.schema.name:string', 'children.item.schema.children:array', 'children.item.schema.children.item:lazy'])
+
+    const named = _.withMeta(_.lazy(() => component), { title: 'Component' })
+    expect(_.toJsonSchema(_.array(named))).toStrictEqual({
+      $schema: _.JSON_SCHEMA_DIALECT,
+      type: 'array',
+      items: { $ref: '#/$defs/Component', title: 'Component' },
+      $defs: {
+        Component: {
+          type: 'object',
+          properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/$defs/lazy' } } },
+          required: ['name', 'children']
+        },
+        lazy: {
+          type: 'object',
+          properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/$defs/lazy' } } },
+          required: ['name', 'children']
+        }
+      }
+    })
+
+    const rebuilt = _.fromJsonSchema(_.toJsonSchema(component))
+    expect(rebuilt.restore({ name: 'a', children: [{ name: 'b', children: [] }] })).toStrictEqual({ name: 'a', children: [{ name: 'b', children: [] }] })
+    expect(_.safeRestore(rebuilt, { name: 'a', children: [{ name: 2, children: [] }] }).success).toBe(false)
+  })
+
+  type Person = { name: string, friends: Person[], manager?: Person }
+  const person: _.Bound<Person, any> = _.object({
+    name: _.string(),
+    friends: _.array(_.lazy(() => person)),
+    manager: _.optional(_.lazy(() => person))
+  })
+
+  test('reference mode emits shared and cyclic objects once', () => {
+    const ann: Person = { name: 'Ann', friends: [] }
+    const bob: Person = { name: 'Bob', friends: [ann], manager: ann }
+    ann.friends.push(bob)
+
+    const schema = _.references(_.array(person))
+    const json = schema.transform([ann, bob])
+    expect(json).toStrictEqual([
+      { $id: '1', name: 'Ann', friends: [{ $id: '2', name: 'Bob', friends: [{ $ref: '1' }], manager: { $ref: '1' } }], manager: undefined },
+      { $ref: '2' }
+    ])
+
+    const [a, b] = schema.restore(JSON.parse(JSON.stringify(json)))
+    expect(a.friends[0]).toBe(b)
+    expect(b.friends[0]).toBe(a)
+    expect(b.manager).toBe(a)
+    expect(a.name).toBe('Ann')
+  })
+
+  test('reference mode preserves class instances', () => {
+    class Node {
+      next?: Node
+      constructor(public label: string) {}
+      describe() { return `node ${this.label}` }
+    }
+    const node: _.Bound<Node, any> = _.classOf(Node, { label: _.string(), next: _.optional(_.lazy(() => node)) })
+    const a = new Node('a')
+    const b = new Node('b')
+    a.next = b
+    b.next = a
+
+    const schema = _.references(node)
+    const json = schema.transform(a)
+    expect(json).toStrictEqual({ $id: '1', label: 'a', next: { label: 'b', next: { $ref: '1' } } })
+
+    const restored = schema.restore(json)
+    expect(restored).toBeInstanceOf(Node)
+    expect(restored.next!.next).toBe(restored)
+    expect(restored.next!.describe()).toBe('node b')
+  })
+
+  test('unresolved references are reported where they are', () => {
+    const result = _.safeRestore(_.references(_.array(person)), [{ name: 'Ann', friends: [{ $ref: '7' }] }])
+    expect(result.success).toBe(false)
+    if (result.success) return
+
+    expect(result.issues[0].code).toBe('unresolved_reference')
+    expect(result.issues[0].pointer).toBe('/0/friends/0/$ref')
+    expect(result.issues[0].message).toBe(`Unresolved reference '7'`)
+    expect(person.restore({ name: 'Ann', friends: [] })).toStrictEqual({ name: 'Ann', friends: [], manager: undefined })
+  })
+
+  test('fields named like the markers are refused, unless the markers are renamed', () => {
+    type Entry = { $id: string, parent?: Entry }
+    const entry: _.Bound<Entry, any> = _.object({ $id: _.string(), parent: _.optional(_.lazy(() => entry)) })
+    const root: Entry = { $id: 'root', parent: undefined }
+    const value = [{ $id: 'a', parent: root }, { $id: 'b', parent: root }]
+
+    const result = _.safeTransform(_.references(_.array(entry)), value)
+    expect(!result.success && result.issues.map(e => [e.code, e.pointer, e.message])).toStrictEqual([
+      ['reserved_key', '/0/parent/$id', `Object key '$id' is reserved for references`],
+      ['reserved_key', '/1/$id', `Object key '$id' is reserved for references`]
+    ])
+
+    const schema = _.references(_.array(entry), { id: '@id', ref: '@ref' })
+    const json = schema.transform(value)
+    expect(json).toStrictEqual([
+      { $id: 'a', parent: { '@id': '1', $id: 'root', parent: undefined } },
+      { $id: 'b', parent: { '@ref': '1' } }
+    ])
+
+    const restored = schema.restore(json)
+    expect(restored).toStrictEqual(value)
+    expect(restored[1].parent).toBe(restored[0].parent)
+  })
+
+  test('records are referenced, and cycles through other collections refused', () => {
+    type Tree = { [key: string]: Tree }
+    const tree: _.Bound<Tree, any> = _.record(_.string(), _.lazy(() => tree))
+    const cyclic: Tree = {}
+    cyclic.self = cyclic
+    const json = _.references(tree).transform(cyclic)
+    expect(json).toStrictEqual({ $id: '1', self: { $ref: '1' } })
+    const restored = _.references(tree).restore(json)
+    expect(restored.self).toBe(restored)
+
+    const leaf: Tree = {}
+    const shared = _.references(tree).restore(_.references(tree).transform({ a: leaf, b: leaf }))
+    expect(shared.a).toBe(shared.b)
+
+    type Nested = Nested[]
+    const nested: _.Bound<Nested, any> = _.array(_.lazy(() => nested))
+    const loop: Nested = []
+    loop.push(loop)
+    const result = _.safeTransform(_.references(nested), loop)
+    expect(!result.success && result.issues.map(e => [e.code, e.pointer, e.message])).toStrictEqual([
+      ['unsupported_cycle', '/0', 'Cycle through an array, while only objects can be referenced']
+    ])
+  })
+})
+
+describe('tuples, enums and intersections', () => {
+  test('tuple', () => {
+    const point = _.tuple([_.number(), _.number(), _.date()])
+    expectTypeOf(point).toEqualTypeOf<_.Bound<[number, number, Date], [number, number, string]>>()
+    const at = new Date('2024-01-01T00:00:00.000Z')
+    expect(point.transform([1, 2, at])).toStrictEqual([1, 2, '2024-01-01T00:00:00.000Z'])
+    expect(point.restore([1, 2, '2024-01-01T00:00:00.000Z'])).toStrictEqual([1, 2, at])
+
+    const result = _.safeRestore(point, [1, 'x', 'y'])
+    expect(!result.success && result.issues.map(e => [e.pointer, e.code])).toStrictEqual([['/1', 'invalid_type'], ['/2', 'invalid_format']])
+    expect(() => point.restore([1, 2] as any)).toThrow('expected at least 3 items, received 2')
+    expect(() => point.restore([1, 2, '2024-01-01T00:00:00.000Z', 4] as any)).toThrow('expected at most 3 items, received 4')
+
+    const command = _.tuple([_.string()], _.number())
+    expectTypeOf<_.Infer<typeof command>>().toEqualTypeOf<[string, ...number[]]>()
+    expect(command.restore(['sum', 1, 2, 3])).toStrictEqual(['sum', 1, 2, 3])
+    const rest = _.safeRestore(command, ['sum', 1, 'two'])
+    expect(!rest.success && rest.issues[0].pointer).toBe('/2')
+  })
+
+  test('oneOf and enumOf', () => {
+    const status = _.oneOf(['draft', 'published', 'archived'])
+    expectTypeOf<_.Infer<typeof status>>().toEqualTypeOf<'draft' | 'published' | 'archived'>()
+    expect(status.restore('draft')).toBe('draft')
+    expect(() => status.restore('deleted' as any)).toThrow(`expected one of "draft", "published", "archived", received "deleted"`)
+
+    enum Direction { Up, Down }
+    enum Color { Red = 'red', Green = 'green' }
+    const direction = _.enumOf(Direction)
+    const color = _.enumOf(Color)
+    expectTypeOf<_.Infer<typeof direction>>().toEqualTypeOf<Direction>()
+    expectTypeOf<_.Infer<typeof color>>().toEqualTypeOf<Color>()
+    expect(direction.restore(1)).toBe(Direction.Down)
+    expect(color.transform(Color.Green)).toBe('green')
+    expect(_.safeRestore(direction, 'Up').success).toBe(false)
+    expect(_.safeRestore(color, 'Red').success).toBe(false)
+    expect(_.reflect(direction)).toStrictEqual({ kind: 'oneOf', values: [0, 1] })
+    expect(_.toJsonSchema(color)).toMatchObject({ enum: ['red', 'green'] })
+  })
+
+  test('literals are compared by value', () => {
+    const origin = _.literal({ x: 0, y: [0, 0] })
+    expect(origin.restore(JSON.parse('{"x":0,"y":[0,0]}'))).toStrictEqual({ x: 0, y: [0, 0] })
+    expect(_.safeRestore(origin, { x: 0, y: [0, 1] }).success).toBe(false)
+    expect(_.safeRestore(_.oneOf([[1, 2], [3]]), JSON.parse('[3]'))).toStrictEqual({ success: true, data: [3] })
+  })
+
+  test('intersection', () => {
+    const named = _.object({ name: _.string() }, { unknownKeys: 'strict' })
+    const aged = _.object({ age: _.number() }, { unknownKeys: 'strict' })
+    const person = _.intersection(named, aged)
+    expectTypeOf<_.Infer<typeof person>>().toEqualTypeOf<{ name: string } & { age: number }>()
+    expect(person.restore({ name: 'Ann', age: 30 })).toStrictEqual({ name: 'Ann', age: 30 })
+    expect(person.transform({ name: 'Ann', age: 30 })).toStrictEqual({ name: 'Ann', age: 30 })
+    const missing = _.safeRestore(person, { name: 1 })
+    expect(!missing.success && missing.issues.map(e => [e.pointer, e.code])).toStrictEqual([['/name', 'invalid_type'], ['/age', 'missing_key']])
+
+    const work = _.intersection(_.email(_.string()), _.refine(_.string(), s => s.endsWith('@example.com'), 'expected a work address'))
+    expect(work.restore('ann@example.com')).toBe('ann@example.com')
+    expect(() => work.restore('ann@home.org')).toThrow('expected a work address')
+
+    expect(() => _.intersection(_.number(), _.literal(1)).restore(2 as any)).toThrow('expected literal 1, received 2')
+    expect(() => _.intersection(_.string(), _.renamed('snake')).transform('aB')).toThrow(`can't be merged`)
+    expect(_.toJsonSchema(_.intersection(named, aged))).toMatchObject({
+      type: 'object',
+      properties: { name: { type: 'string' }, age: { type: 'number' } },
+      required: ['name', 'age'],
+      additionalProperties: false
+    })
+  })
+
+  test('json schema round trip of tuples and enums', () => {
+    const schema = _.object({ pair: _.tuple([_.string(), _.number()]), rest: _.tuple([_.string()], _.boolean()), kind: _.oneOf(['a', 'b']) })
+    const exported = _.toJsonSchema(schema)
+    expect(exported.properties!.pair).toStrictEqual({ type: 'array', prefixItems: [{ type: 'string' }, { type: 'number' }], items: false, minItems: 2, maxItems: 2 })
+    expect(_.toJsonSchema(_.fromJsonSchema(exported))).toStrictEqual(exported)
+  })
+})
+
+describe('codecs and pipes', () => {
+  const json = _.codec<_.Literal, string>({ name: 'json', encode: v => JSON.stringify(v), decode: str => JSON.parse(str) })
+  const reversed = _.codec<string, string>({ name: 'reverse', encode: str => [...str].reverse().join(''), decode: str => [...str].reverse().join('') })
+  const base64 = _.codec<string, string>({
+    name: 'base64',
+    encode: str => btoa(str),
+    decode: str => atob(str),
+    validate: v => typeof v === 'string' && /^[A-Za-z0-9+/]*={0,2}$/.test(v)
+  })
+
+  const settings = _.object({ theme: _.string(), size: _.number() })
+  const packed = _.pipe(settings, json, reversed, base64)
+
+  test('pipe chains steps declaratively', () => {
+    expectTypeOf(packed).toEqualTypeOf<_.Bound<{ theme: string, size: number }, string>>()
+    const stored = packed.transform({ theme: 'dark', size: 12 })
+    expect(stored).toBe(btoa('}21:"ezis","krad":"emeht"{'))
+    expect(packed.restore(stored)).toStrictEqual({ theme: 'dark', size: 12 })
+    expect(_.reflect(packed)).toMatchObject({ kind: 'pipe' })
+    expect(_.children(packed).map(([i, step]) => [i, _.reflect(step).kind])).toStrictEqual([[0, 'object'], [1, 'codec'], [2, 'codec'], [3, 'codec']])
+  })
+
+  test('each step is labelled in the error stack', () => {
+    expect(() => packed.restore('!!!')).toThrow('expected base64, received "!!!"')
+
+    try {
+      packed.restore(btoa('}'))
+      expect.unreachable()
+    } catch (e) {
+      expect(e).toBeInstanceOf(_.TransformationError)
+      const error = e as _.TransformationError
+      expect(error.code).toBe('invalid_format')
+      expect(error.details.params?.cause).toBeTypeOf('string')
+      expect(error.location).toBe('pipe:restore[1 json] -> json:restore(!!)')
+    }
+
+    try {
+      packed.restore(btoa('}"x":"ezis","krad":"emeht"{'))
+      expect.unreachable()
+    } catch (e) {
+      expect((e as _.TransformationError).location).toBe(`pipe:restore[0 object] -> object:restore['size'] -> number(!!)`)
+    }
+  })
+
+  test('encoding failures are reported', () => {
+    const positive = _.codec<number, string>({
+      encode: n => {
+        if (n < 0) throw new Error('negative')
+        return String(n)
+      },
+      decode: Number
+    })
+    expect(() => positive.transform(-1)).toThrow('Could not encode with codec: negative')
+    expect(_.pipe(_.number(), positive).restore('3')).toBe(3)
+  })
+})
+
+describe('derived schemas', () => {
+  const user = _.object({
+    id: _.number(),
+    userName: _.field('user_name', _.string()),
+    bio: _.optional(_.string()),
+    role: _.withDefault(_.string(), 'member'),
+    address: _.object({ city: _.string(), zip: _.string() })
+  }, { unknownKeys: 'strict' })
+
+  test('partial', () => {
+    const patch = _.partial(user)
+    expectTypeOf<_.Infer<typeof patch>>().toEqualTypeOf<{
+      id?: number, userName?: string, bio?: string, role?: string, address?: { city: string, zip: string }
+    }>()
+    expectTypeOf<_.Serialized<typeof patch>>().toEqualTypeOf<{
+      id?: number, user_name?: string, bio?: string, role?: string, address?: { city: string, zip: string }
+    }>()
+    expect(patch.restore({ user_name: 'ann' })).toStrictEqual({ id: undefined, userName: 'ann', bio: undefined, role: 'member', address: undefined })
+    expect(() => patch.restore({ other: 1 } as any)).toThrow(`Unrecognized object keys 'other'`)
+  })
+
+  test('deepPartial', () => {
+    const patch = _.deepPartial(user)
+    expectTypeOf<_.Infer<typeof patch>['address']>().toEqualTypeOf<{ city?: string, zip?: string } | undefined>()
+    expect(patch.restore({ address: { city: 'Paris' } })).toMatchObject({ address: { city: 'Paris', zip: undefined } })
+  })
+
+  test('pick, omit and required', () => {
+    const summary = _.pick(user, ['id', 'userName'])
+    expectTypeOf<_.Infer<typeof summary>>().toEqualTypeOf<{ id: number, userName: string }>()
+    expectTypeOf<_.Serialized<typeof summary>>().toEqualTypeOf<{ id: number, user_name: string }>()
+    expect(summary.transform({ id: 1, userName: 'ann' })).toStrictEqual({ id: 1, user_name: 'ann' })
+
+    const creation = _.omit(user, ['id'])
+    expectTypeOf<keyof _.Infer<typeof creation>>().toEqualTypeOf<'userName' | 'bio' | 'role' | 'address'>()
+    expect(() => creation.restore({ id: 1, user_name: 'ann', address: { city: 'a', zip: 'b' } } as any)).toThrow(`Unrecognized object keys 'id'`)
+
+    const complete = _.required(user)
+    expectTypeOf<_.Infer<typeof complete>>().toEqualTypeOf<{ id: number, userName: string, bio: string, role: string, address: { city: string, zip: string } }>()
+    const result = _.safeRestore(complete, { id: 1, user_name: 'ann', address: { city: 'a', zip: 'b' } })
+    expect(!result.success && result.issues.map(e => e.pointer)).toStrictEqual(['/bio', '/role'])
+  })
+
+  test('schemas are derived from extended objects too', () => {
+    const base = _.object({ id: _.number() })
+    const named = _.object({ displayName: _.string() }, { naming: 'snake' })
+    const extended = _.extendObject(base, named)
+    expectTypeOf<_.Serialized<typeof extended>>().toEqualTypeOf<{ id: number, display_name: string }>()
+
+    const patch = _.partial(extended)
+    expectTypeOf<_.Serialized<typeof patch>>().toEqualTypeOf<{ id?: number, display_name?: string }>()
+    expect(patch.restore({ display_name: 'Ann' })).toStrictEqual({ id: undefined, displayName: 'Ann' })
+    expect(_.pick(extended, ['displayName']).transform({ displayName: 'Ann' })).toStrictEqual({ display_name: 'Ann' })
+    expect(() => _.partial(_.array(_.string()) as any)).toThrow(`Schemas can only be derived from object schemas, got 'array'`)
+  })
+})
+
+describe('diff and patch', () => {
+  const component = _.object({ Type: _.literal('One'), Config: _.document(oneConfigSchema) })
+  type Component = _.Infer<typeof component>
+  const before: Component = {
+    Type: 'One',
+    Config: { metaConfig: 'test', remote: [{ filters: { filterData: 'test' } }, { filters: { filterData: 'toast' } }] }
+  }
+
+  test('diff descends into nested documents', () => {
+    const after: Component = {
+      Type: 'One',
+      Config: { metaConfig: 'test', remote: [{ filters: { filterData: 'changed' } }] }
+    }
+
+    const patch = _.diff(component, before, after)
+    expect(patch).toStrictEqual([
+      {
+        op: 'patch',
+        path: '/Config',
+        patch: [
+          { op: 'patch', path: '/remote/0/filters', patch: [{ op: 'replace', path: '/filterData', value: 'changed' }] },
+          { op: 'remove', path: '/remote/1' }
+        ]
+      }
+    ])
+    expect(_.diff(component, before, before)).toStrictEqual([])
+    expect(_.applyPatch(component, before, patch)).toStrictEqual(after)
+  })
+
+  test('diff produces standard operations elsewhere', () => {
+    const schema = _.object({ name: _.string(), tags: _.array(_.string()), note: _.optional(_.string()), created: _.date() }, { naming: 'snake' })
+    const a = { name: 'a', tags: ['x'], note: 'hi', created: new Date(0) }
+    const b = { name: 'b', tags: ['x', 'y'], created: new Date(1000) }
+    const patch = _.diff(schema, a, b)
+    expect(patch).toStrictEqual([
+      { op: 'remove', path: '/note' },
+      { op: 'replace', path: '/name', value: 'b' },
+      { op: 'add', path: '/tags/1', value: 'y' },
+      { op: 'replace', path: '/created', value: '1970-01-01T00:00:01.000Z' }
+    ])
+    expect(_.applyPatch(schema, a, patch)).toStrictEqual({ ...b, note: undefined })
+    expect(a.tags).toStrictEqual(['x'])
+  })
+
+  test('applyPatch supports every operation and re-validates', () => {
+    const schema = _.object({ a: _.array(_.number()), b: _.optional(_.number()) })
+    const value = { a: [1, 2, 3] }
+    expect(_.applyPatch(schema, value, [
+      { op: 'test', path: '/a/0', value: 1 },
+      { op: 'move', from: '/a/0', path: '/a/-' },
+      { op: 'copy', from: '/a/0', path: '/b' },
+      { op: 'add', path: '/a/0', value: 0 }
+    ])).toStrictEqual({ a: [0, 2, 3, 1], b: 2 })
+
+    expect(() => _.applyPatch(schema, value, [{ op: 'replace', path: '/a/1', value: 'x' }])).toThrow(`expected 'number', received 'string'`)
+    expect(() => _.applyPatch(schema, value, [{ op: 'test', path: '/a/0', value: 2 }])).toThrow(`Cannot apply 'test' operation: value differs`)
+    expect(() => _.applyPatch(schema, value, [{ op: 'remove', path: '/b' }])).toThrow(`Cannot apply 'remove' operation: no such value`)
+    expect(() => _.applyPatch(schema, value, [{ op: 'patch', path: '/a', patch: [] }])).toThrow(`Cannot apply 'patch' operation: not a document`)
+
+    try {
+      _.applyPatch(component, before, [{ op: 'patch', path: '/Config', patch: [{ op: 'remove', path: '/remote/5' }] }])
+      expect.unreachable()
+    } catch (e) {
+      expect((e as _.TransformationError).pointer).toBe('/Config/remote/5')
+    }
+  })
+
+  test('applyPatch refuses to reach into prototypes', () => {
+    const schema = _.object({ a: _.string() }, { unknownKeys: 'passthrough' })
+    for (const path of ['/__proto__/polluted', '/constructor/prototype/polluted', '/__proto__']) {
+      expect(() => _.applyPatch(schema, { a: 'x' }, [{ op: 'add', path, value: 'yes' }])).toThrow(`Cannot apply 'add' operation: unsafe key`)
+    }
+
+    expect(() => _.applyPatch(schema, { a: 'x' }, [{ op: 'copy', from: '/__proto__', path: '/b' }])).toThrow(`unsafe key '__proto__'`)
+    expect(({} as any).polluted).toBeUndefined()
+    expect(_.applyPatch(schema, { a: 'x' }, [{ op: 'add', path: '/toString', value: 'own' }])).toStrictEqual({ a: 'x', toString: 'own' })
+
+    try {
+      _.applyPatch(schema, { a: 'x' }, [{ op: 'remove', path: 'a' }])
+      expect.unreachable()
+    } catch (e) {
+      expect(e).toBeInstanceOf(_.TransformationError)
+      expect((e as _.TransformationError).code).toBe('invalid_patch')
+      expect((e as _.TransformationError).message).toBe(`Cannot apply 'remove' operation: invalid JSON Pointer 'a'`)
+    }
+  })
+
+  test('applyPatch refuses malformed operations', () => {
+    const schema = _.object({ a: _.string(), doc: _.document(_.object({ b: _.number() })) })
+    const refused = (patch: any[]) => {
+      try {
+        _.applyPatch(schema, { a: 'x', doc: { b: 1 } }, patch)
+        return expect.unreachable()
+      } catch (e) {
+        expect(e).toBeInstanceOf(_.TransformationError)
+        return [(e as _.TransformationError).code, (e as _.TransformationError).pointer, (e as Error).message]
+      }
+    }
+
+    expect(refused([{ op: 'rename', path: '/a' }])).toStrictEqual(['invalid_patch', '', `Cannot apply 'rename' operation: unknown operation 'rename'`])
+    expect(refused([{ op: 'remove' }])).toStrictEqual(['invalid_patch', '', `Cannot apply 'remove' operation: expected a JSON Pointer, received undefined`])
+    expect(refused([{ op: 'copy', path: '/c' }])).toStrictEqual(['invalid_patch', '', `Cannot apply 'copy' operation: expected a JSON Pointer, received undefined`])
+    expect(refused([
+      { op: 'replace', path: '/doc', value: '{oops' },
+      { op: 'patch', path: '/doc', patch: [{ op: 'replace', path: '/b', value: 2 }] }
+    ])).toStrictEqual(['invalid_patch', '/doc', `Cannot apply 'patch' operation: document does not parse`])
+  })
+})
+
+describe('streams', () => {
+  const item = _.object({ id: _.number(), at: _.date() })
+  const schema = _.array(item)
+
+  async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+    const values: T[] = []
+    for await (const value of stream) {
+      values.push(value)
+    }
+
+    return values
+  }
+
+  /** split text into small chunks, cutting through strings and escapes */
+  function* chunks(text: string, size = 3) {
+    for (let i = 0; i < text.length; i += size) {
+      yield text.slice(i, i + size)
+    }
+  }
+
+  test('restores items of a JSON array across chunks', async () => {
+    const text = ' [ {"id": 1, "at": "1970-01-01T00:00:00.000Z", "note": "a \\" ]}, [} "},\n{"id":2,"at":"1970-01-01T00:00:01.000Z"} ] '
+    expect(await collect(_.restoreStream(schema, chunks(text)))).toStrictEqual([
+      { id: 1, at: new Date(0) },
+      { id: 2, at: new Date(1000) }
+    ])
+
+    const bytes = new TextEncoder().encode('["é", "ü"]')
+    expect(await collect(_.restoreStream(_.array(_.string()), [bytes.slice(0, 3), bytes.slice(3)]))).toStrictEqual(['é', 'ü'])
+    expect(await collect(_.restoreStream(schema, ['[', ']']))).toStrictEqual([])
+  })
+
+  test('restores NDJSON', async () => {
+    const text = '{"id":1,"at":"1970-01-01T00:00:00.000Z"}\n\n{"id":2,"at":"1970-01-01T00:00:01.000Z"}'
+    expect(await collect(_.restoreStream(schema, chunks(text, 7), { format: 'ndjson' }))).toStrictEqual([
+      { id: 1, at: new Date(0) },
+      { id: 2, at: new Date(1000) }
+    ])
+  })
+
+  test('per-item issues carry the index and can be skipped', async () => {
+    const text = '[{"id":1,"at":"1970-01-01T00:00:00.000Z"}, {"id":"2"}, {"id":3,"at":"1970-01-01T00:00:03.000Z"}, {oops}]'
+    const skipped: Array<[string, number]> = []
+    const restored = await collect(_.restoreStream(schema, [text], {
+      onError: (e, index) => {
+        skipped.push([e.pointer, index])
+        return 'skip'
+      }
+    }))
+
+    expect(restored.map(r => r.id)).toStrictEqual([1, 3])
+    expect(skipped).toStrictEqual([['/1', 1], ['/3', 3]])
+
+    await expect(collect(_.restoreStream(schema, [text]))).rejects.toThrow(`expected 'number', received 'string'`)
+    await expect(collect(_.restoreStream(schema, ['[1, 2'], { onError: () => 'skip' })))
+      .rejects.toThrow('expected a JSON array, received the end of the stream before the end of the array at line 1, column 6')
+    await expect(collect(_.restoreStream(schema, ['{}']))).rejects.toThrow(`expected a JSON array, received '{' at line 1, column 1`)
+    await expect(collect(_.restoreStream(_.string(), ['[]']))).rejects.toThrow(`Streams can only be made of array schemas, got 'string'`)
+  })
+
+  test('transforms items incrementally', async () => {
+    async function* rows() {
+      yield { id: 1, at: new Date(0) }
+      yield { id: 2, at: new Date(1000) }
+    }
+
+    const json = await collect(_.transformStream(schema, rows()))
+    expect(json).toHaveLength(3)
+    expect(JSON.parse(json.join(''))).toStrictEqual(schema.transform([{ id: 1, at: new Date(0) }, { id: 2, at: new Date(1000) }]))
+    expect(await collect(_.transformStream(schema, []))).toStrictEqual(['[]'])
+
+    const ndjson = await collect(_.transformStream(schema, rows(), { format: 'ndjson' }))
+    expect(await collect(_.restoreStream(schema, ndjson, { format: 'ndjson' }))).toStrictEqual([
+      { id: 1, at: new Date(0) },
+      { id: 2, at: new Date(1000) }
+    ])
+
+    const bad = [{ id: 1, at: new Date(0) }, { id: 'x' as any, at: new Date(0) }]
+    expect(await collect(_.transformStream(schema, bad, { format: 'ndjson', onError: () => 'skip' }))).toHaveLength(1)
+    await expect(collect(_.transformStream(schema, bad))).rejects.toMatchObject({ pointer: '/1/id' })
+  })
+
+  test('writes items without a JSON form as null, or raises an issue in NDJSON', async () => {
+    const maybe = _.array(_.optional(_.number()))
+    expect((await collect(_.transformStream(maybe, [1, undefined, 3]))).join('')).toBe('[1,null,3]')
+    await expect(collect(_.transformStream(maybe, [1, undefined], { format: 'ndjson' })))
+      .rejects.toMatchObject({ code: 'invalid_type', pointer: '/1' })
+    expect(await collect(_.transformStream(maybe, [1, undefined], { format: 'ndjson', onError: () => 'skip' })))
+      .toStrictEqual(['1\n'])
+  })
+
+  test('streams refined and deferred arrays by their items', async () => {
+    const bounded = _.minLength(_.array(_.number()), 1)
+    expect((await collect(_.transformStream(bounded, [1, 2]))).join('')).toBe('[1,2]')
+    expect(await collect(_.restoreStream(_.lazy(() => bounded), ['[1, 2]']))).toStrictEqual([1, 2])
+  })
+
+  test('reports invalid UTF-8 at its byte offset', async () => {
+    const bytes = new TextEncoder().encode('["é", "ü"]')
+    const broken = Uint8Array.from([...bytes.slice(0, 8), 0xff, ...bytes.slice(8)])
+    await expect(collect(_.restoreStream(_.array(_.string()), [broken.slice(0, 7), broken.slice(7)])))
+      .rejects.toThrow('expected a JSON array, received invalid UTF-8 at byte 8')
+    await expect(collect(_.restoreStream(_.array(_.string()), [bytes.slice(0, 3)])))
+      .rejects.toThrow('expected a JSON array, received a truncated UTF-8 sequence at byte 2')
+  })
+})
+
+describe('arbitrary values and round trips', () => {
+  const components = _.discriminatedUnion('Type', { One: oneComponentSchema, Two: twoComponentSchema })
+  const schema = _.object({
+    id: _.uuid(_.string()),
+    email: _.optional(_.email(_.string())),
+    score: _.nullable(_.integer(_.min(_.max(_.number(), 10), 0))),
+    tags: _.maxLength(_.array(_.trimmed(_.minLength(_.string(), 1))), 3),
+    components: _.record(_.string(), components),
+    created: _.date('epoch'),
+    kind: _.union(_.when((v: any) => typeof v === 'string', _.string()), _.when((v: any) => typeof v === 'number', _.number()))
+  }, { naming: 'snake' })
+
+  test('generates valid values, reproducibly', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      const value = _.arbitrary(schema, { seed })
+      expect(_.arbitrary(schema, { seed })).toStrictEqual(value)
+      expect(() => schema.transform(value)).not.toThrow()
+    }
+
+    expect(_.arbitrary(_.array(_.number()), { seed: 1 })).not.toStrictEqual(_.arbitrary(_.array(_.number()), { seed: 2 }))
+    expect(_.arbitrary(_.withMeta(_.date(), { examples: ['2024-01-01T00:00:00.000Z'] }))).toStrictEqual(new Date('2024-01-01'))
+    expect(() => _.arbitrary(_.codec({ encode: String, decode: Number }))).toThrow(`Cannot generate values of 'codec' schemas without examples`)
+    expect(() => _.arbitrary(_.union<string>(v => v === 'a' && _.string()))).toThrow(`Cannot generate values of unions whose branches aren't known`)
+  })
+
+  test('covers nested documents and recursive schemas', () => {
+    type Tree = { name: string, children: Tree[] }
+    const tree: _.Bound<Tree, any> = _.object({ name: _.string(), children: _.array(_.lazy(() => tree)) })
+
+    _.assertRoundTrip(schema, { runs: 50, seed: 42 })
+    const entities = _.document(_.record(_.string(), _.union(
+      _.when((v: AnyComponent) => v.Type === 'One', oneComponentSchema),
+      _.when((v: AnyComponent) => v.Type === 'Two', twoComponentSchema)
+    )))
+    _.assertRoundTrip(entities, { runs: 50, seed: 42 })
+    _.assertRoundTrip(tree, { runs: 20, seed: 42 })
+    _.assertRoundTrip(_.object({ at: _.map(_.string(), _.bigint()), bytes: _.bytes('hex'), set: _.set(_.url()), re: _.regexp() }), { runs: 20, seed: 42 })
+  })
+
+  test('shrinks failures to a minimal counterexample', () => {
+    const rounded = _.pipe(_.number(), _.codec({ name: 'rounded', encode: (n: number) => Math.round(n), decode: (n: number) => n }))
+    const lossy = _.object({ name: _.string(), counts: _.array(rounded) })
+
+    let error: _.RoundTripError | undefined
+    try {
+      _.assertRoundTrip(lossy, { seed: 7 })
+    } catch (e) {
+      error = e as _.RoundTripError
+    }
+
+    expect(error).toBeInstanceOf(_.RoundTripError)
+    expect(error!.counterexample.name).toBe('')
+    expect(error!.counterexample.counts).toHaveLength(1)
+    expect(Number.isInteger(error!.counterexample.counts[0])).toBe(false)
+    expect(error!.message).toMatch(/^Round trip failed \(seed \d+\): restored as \{"name": "", "counts": \[-?\d+\]\}/)
+
+    const original = _.arbitrary(lossy, { seed: error!.seed })
+    expect(lossy.restore(lossy.transform(original))).not.toStrictEqual(original)
+  })
+
+  test('shrinks through pipes, and reports values it cannot generate', () => {
+    const rounded = _.pipe(_.number(), _.codec({ name: 'rounded', encode: (n: number) => Math.round(n), decode: (n: number) => n }))
+    const json = _.codec({ name: 'json', encode: (v: any) => JSON.stringify(v), decode: (v: string) => JSON.parse(v) })
+    const packed = _.pipe(_.object({ name: _.string(), counts: _.array(rounded) }), json)
+
+    const error = (() => { try { _.assertRoundTrip(packed, { seed: 7 }) } catch (e) { return e as _.RoundTripError } })()
+    expect(error).toBeInstanceOf(_.RoundTripError)
+    expect(error!.counterexample.name).toBe('')
+    expect(error!.counterexample.counts).toHaveLength(1)
+
+    const impossible = (() => { try { _.arbitrary(_.maxLength(_.email(_.string()), 5)) } catch (e) { return e } })()
+    expect(impossible).toBeInstanceOf(_.GenerationError)
+    expect(impossible).toMatchObject({ kind: 'refined', message: expect.stringMatching(/^Could not generate a value satisfying 'maxLength'/) })
+    expect(() => _.arbitrary(_.codec({ encode: String, decode: Number }))).toThrow(_.GenerationError)
+  })
+})
+
+describe('compiled schemas', () => {
+  const compiled = _.compile(entitySchema)
+
+  test('transform and restore like the schema they compile', () => {
+    const restored = entitySchema.restore(testEntity)
+    expect(compiled.restore(testEntity)).toStrictEqual(restored)
+    expect(compiled.transform(restored)).toStrictEqual(entitySchema.transform(restored))
+    expect(_.reflect(compiled)).toBe(_.reflect(entitySchema))
+
+    const strict = _.compile(_.object({ inner: _.scoped(_.object({ a: _.number() }), { unknownKeys: 'strict' }) }))
+    expect(() => strict.restore({ inner: { a: 1, b: 2 } })).toThrow(`Unrecognized object keys 'b'`)
+    expect(_.safeRestore(strict, { inner: { a: 1, b: 2 } }, { unknownKeys: 'passthrough' }).success).toBe(false)
+  })
+
+  test('report issues exactly as the schema does', () => {
+    const broken = { ...testEntity, my_two: { Type: 'Two', extra: true }, my_one: { Type: 'One', Config: '{"metaConfig": 1, "remote": []}' } }
+    const expected = (() => { try { entitySchema.restore(broken as any) } catch (e) { return e as _.TransformationError } })()!
+    const actual = (() => { try { compiled.restore(broken as any) } catch (e) { return e as _.TransformationError } })()!
+
+    expect(actual.message).toBe(expected.message)
+    expect(actual.pointer).toBe('/my_one/Config/metaConfig')
+    expect(actual.location).toBe(expected.location)
+  })
+
+  test('build no labels for the entries of collections', () => {
+    const quiet = _.quietStack()
+    const label = vi.fn(() => 'entry')
+    expect(_.descend(quiet, label, 0)).toBe(quiet)
+    expect(label).not.toHaveBeenCalled()
+    expect(_.descend(_.stack(), label, 0).path).toStrictEqual([0])
+    expect(label).toHaveBeenCalledOnce()
+  })
+
+  test('keep track of positions in reference mode', () => {
+    type Node = { name: string, next?: Node }
+    const node: _.Bound<Node, any> = _.object({ name: _.string(), next: _.optional(_.lazy(() => node)) })
+    const a: Node = { name: 'a' }
+    a.next = { name: 'b', next: a }
+
+    for (const schema of [_.compile(_.references(node)), _.references(_.compile(node))]) {
+      const restored = schema.restore(schema.transform(a))
+      expect(restored.next!.next).toBe(restored)
+    }
+  })
+})
+
+describe('sensitive values', () => {
+  const credentials = _.object({ user: _.string(), token: _.sensitive(_.string()) })
+  const account = _.object({
+    name: _.string(),
+    email: _.optional(_.sensitive(_.email(_.string()))),
+    sessions: _.array(credentials),
+    keys: _.record(_.string(), _.sensitive(_.string())),
+    login: _.union(
+      _.when((v: any) => 'password' in v, _.object({ password: _.sensitive(_.string()) })),
+      _.when((v: any) => 'provider' in v, _.object({ provider: _.string() }))
+    ),
+    settings: _.document(_.object({ theme: _.string(), apiKey: _.sensitive(_.string()) }, { naming: 'snake' }))
+  }, { naming: 'snake' })
+
+  const value = {
+    name: 'ada',
+    email: 'ada@example.com',
+    sessions: [{ user: 'ada', token: 'secret-1' }],
+    keys: { github: 'gh-secret' },
+    login: { password: 'hunter2' },
+    settings: { theme: 'dark', apiKey: 'key-secret' }
+  }
+
+  test('redact masks sensitive values throughout a serialized value', () => {
+    const json = account.transform(value)
+    const redacted = _.redact(account, json)
+    expect(redacted).toStrictEqual({
+      name: 'ada',
+      email: '[REDACTED]',
+      sessions: [{ user: 'ada', token: '[REDACTED]' }],
+      keys: { github: '[REDACTED]' },
+      login: { password: '[REDACTED]' },
+      settings: JSON.stringify({ theme: 'dark', api_key: '[REDACTED]' }, null, 2)
+    })
+    expect(JSON.stringify(redacted)).not.toMatch(/secret|hunter2|ada@/)
+    expect(json.sessions[0].token).toBe('secret-1')
+
+    const hinted = _.redact(credentials, { user: 'ada', token: 'secret-1' }, { mask: v => `***${String(v).slice(-1)}` })
+    expect(hinted).toStrictEqual({ user: 'ada', token: '***1' })
+    expect(_.redact(account, { ...json, settings: '{oops secret' } as any).settings).toBe('[REDACTED]')
+    expect(_.reflect(_.sensitive(_.string()))).toMatchObject({ kind: 'sensitive' })
+    expect(_.toJsonSchema(credentials).properties).toStrictEqual({ user: { type: 'string' }, token: { type: 'string' } })
+  })
+
+  test('issues within sensitive values do not carry them', () => {
+    try {
+      account.restore({ ...account.transform(value), email: 'not an email', sessions: [{ user: 'ada', token: 42 }] } as any)
+      expect.unreachable()
+    } catch (e) {
+      const issues = _.issuesOf(e as _.TransformationError)
+      expect(issues.map(i => [i.pointer, i.code, i.received, i.offender])).toStrictEqual([
+        ['/email', 'invalid_string', '[REDACTED]', '[REDACTED]'],
+        ['/sessions/0/token', 'invalid_type', 'number', '[REDACTED]']
+      ])
+      expect((e as Error).message).not.toMatch(/not an email/)
+      expect(issues[1].location).toContain('token')
+    }
+
+    const result = _.safeTransform(credentials, { user: 'ada', token: 42 as any })
+    expect(!result.success && result.issues[0].offender).toBe('[REDACTED]')
+  })
+
+  test('issues do not quote sensitive values through messages or causes', () => {
+    const key = _.sensitive(_.validated<string>(v => v.startsWith('sk-'), v => `'${v}' is not a key`))
+    const encoded = _.sensitive(_.pipe(_.string(), _.codec({
+      name: 'hex',
+      encode: (v: string) => v,
+      decode: (v: string) => { throw new Error(`cannot decode '${v}'`) }
+    })))
+
+    const result = _.safeRestore(_.object({ key, encoded }), { key: 'hunter2', encoded: 'hunter3' })
+    expect(result.success).toBe(false)
+    const issues = !result.success ? result.issues : []
+    expect(issues.map(i => [i.pointer, i.code])).toStrictEqual([['/key', 'custom'], ['/encoded', 'invalid_format']])
+    expect(issues[1].details.params).toStrictEqual({})
+    expect(JSON.stringify(issues.map(i => [i.message, i.details, i.offender]))).not.toMatch(/hunter/)
+  })
+
+  test('issues raised about values holding sensitive ones redact them', () => {
+    const strict = _.object({ user: _.string(), token: _.sensitive(_.string()) }, { unknownKeys: 'strict', naming: 'snake' })
+    const unknown = _.safeRestore(strict, { user: 'ada', token: 'secret-1', extra: true } as any)
+    expect(!unknown.success && unknown.issues[0].offender).toStrictEqual({ user: 'ada', token: '[REDACTED]', extra: true })
+
+    const distinct = _.refine(credentials, c => c.user !== c.token, 'Token equals user')
+    const refined = _.safeRestore(distinct, { user: 'secret-2', token: 'secret-2' })
+    expect(!refined.success && refined.issues[0].offender).toStrictEqual({ user: 'secret-2', token: '[REDACTED]' })
+
+    const either = _.union(
+      _.when((v: any) => 'token' in v, credentials),
+      _.when((v: any) => 'provider' in v, _.object({ provider: _.string() }))
+    )
+    const unmatched = _.safeRestore(either, { user: 'ada', token: 42 } as any)
+    expect(unmatched.success).toBe(false)
+    expect(JSON.stringify(!unmatched.success && unmatched.issues.map(i => i.offender))).not.toMatch(/42/)
+  })
+
+  test('constraints around sensitive values do not quote them', () => {
+    const contact = _.object({ email: _.email(_.sensitive(_.string())) })
+    const result = _.safeRestore(contact, { email: 'jane.doe-secret' })
+    expect(!result.success && result.issues.map(i => [i.pointer, i.code, i.received, i.offender])).toStrictEqual([
+      ['/email', 'invalid_string', '[REDACTED]', '[REDACTED]']
+    ])
+    expect(!result.success && result.issues.map(i => [i.message, i.toString()]).join()).not.toMatch(/secret/)
+
+    const tokens = _.unique(_.array(_.sensitive(_.string())))
+    const duplicates = _.safeRestore(_.object({ tokens, note: _.refine(_.string(), v => v.length < 3, 'Too long') }), {
+      tokens: ['secret-1', 'secret-1'],
+      note: 'public'
+    })
+    expect(!duplicates.success && duplicates.issues.map(i => [i.pointer, i.code, i.offender, i.message])).toStrictEqual([
+      ['/tokens/1', 'not_unique', '[REDACTED]', expect.any(String)],
+      ['/note', 'custom', 'public', 'Too long']
+    ])
+    expect(() => tokens.restore(['secret-1', 'secret-1'])).toThrow(expect.objectContaining({ offender: '[REDACTED]' }))
+  })
+
+  test('redact decodes the steps of pipes', () => {
+    const json = _.codec({ name: 'json', encode: (v: any) => JSON.stringify(v), decode: (v: string) => JSON.parse(v) })
+    const packed = _.pipe(credentials, json)
+    expect(JSON.parse(_.redact(packed, packed.transform({ user: 'ada', token: 'secret-1' }))))
+      .toStrictEqual({ user: 'ada', token: '[REDACTED]' })
+    expect(_.redact(packed, '{oops secret')).toBe('[REDACTED]')
+  })
+})